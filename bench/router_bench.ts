@@ -0,0 +1,62 @@
+/**
+ * @file router_bench.ts
+ * @description Compares route lookup through the route index with a linear
+ * scan of the router stack. Run with `deno task bench`.
+ * @author Sriram Sundar
+ */
+
+import { RouteHandler } from "../src/core/app.ts";
+import { createRouter } from "../src/router/router.ts";
+import { createRouteIndex } from "../src/router/tree.ts";
+
+const ROUTE_COUNT = 500;
+
+const handler: RouteHandler = (_req, res) => {
+  res.send("ok");
+};
+
+const router = createRouter();
+
+router.use((_req, _res, next) => next?.());
+
+for (let i = 0; i < ROUTE_COUNT; i++) {
+  router.get(`/api/v1/resource${i}`, handler);
+  router.get(`/api/v1/resource${i}/:id`, handler);
+  router.post(`/api/v1/resource${i}/:id/items`, handler);
+}
+
+const index = createRouteIndex(router.stack);
+const firstPath = "/api/v1/resource0/42";
+const lastPath = `/api/v1/resource${ROUTE_COUNT - 1}/42`;
+
+Deno.bench(
+  "linear scan (first route)",
+  { group: "first", baseline: true },
+  () => {
+    router.stack.filter((layer) => layer.match(firstPath));
+  }
+);
+
+Deno.bench("route index (first route)", { group: "first" }, () => {
+  index
+    .lookup(firstPath, "get")
+    .candidates.filter((i) => router.stack[i].match(firstPath));
+});
+
+Deno.bench(
+  "linear scan (last route)",
+  { group: "last", baseline: true },
+  () => {
+    router.stack.filter((layer) => layer.match(lastPath));
+  }
+);
+
+Deno.bench("route index (last route)", { group: "last" }, () => {
+  index
+    .lookup(lastPath, "get")
+    .candidates.filter((i) => router.stack[i].match(lastPath));
+});
+
+Deno.bench("router.handle (last route)", async () => {
+  await router.handle(new Request(`http://localhost${lastPath}`));
+});
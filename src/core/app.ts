@@ -4,9 +4,53 @@
  * @author Sriram Sundar
  */
 
-import methods from "./methods.ts";
+import { HttpMethod } from "./methods.ts";
 import { createRouter, Router, NextFunction } from "../router/router.ts";
+import { PathParams } from "../router/path.ts";
+import { listRoutes, RouteInfo } from "../router/inspect.ts";
 import { init } from "../middleware/index.ts";
+import { CookieOptions } from "../utils/cookie.ts";
+import { ParsedQuery } from "../utils/query.ts";
+import { EtagFunction } from "../utils/etag.ts";
+import { TrustFunction } from "../utils/proxy.ts";
+import { Logger } from "../utils/logger.ts";
+import { Session } from "../middleware/session.ts";
+import {
+  ValidatedHandler,
+  ValidationMiddleware,
+  ValidationSchemas,
+} from "../middleware/validate.ts";
+import { setConnectionInfo } from "../http/request.ts";
+import { ListenOptions, ServerHandle, startServer } from "../http/server.ts";
+import {
+  EngineFunction,
+  lookupView,
+  normalizeExtension,
+  View,
+} from "../view/view.ts";
+import { renderFile } from "../view/template.ts";
+import {
+  generateOpenApi,
+  OpenApiDocument,
+  OpenApiOptions,
+} from "../openapi/openapi.ts";
+import { EventStream, SseOptions } from "../http/sse.ts";
+import {
+  createWebSocketHub,
+  createWebSocketRoute,
+  WebSocketHandler,
+  WebSocketHub,
+  WebSocketMethod,
+  WebSocketOptions,
+} from "../http/websocket.ts";
+import {
+  applySetting,
+  createDefaultSettings,
+  EtagSetting,
+  QueryParser,
+  QueryParserSetting,
+  TrustProxySetting,
+} from "./settings.ts";
 
 /**
  * Configuration options for the application.
@@ -16,40 +60,228 @@ export interface AppOptions {
   caseSensitive?: boolean;
   /** Whether routes should match strictly (exact trailing slashes) */
   strict?: boolean;
+  /** Final handler for errors that no error middleware handled */
+  errorHandler?: ErrorHandler;
 }
 
+/**
+ * Application settings. Extend this interface through declaration merging to
+ * type custom settings. Mounted sub-apps inherit unset values from their parent.
+ */
+export interface AppSettings {
+  /** Whether routes are case sensitive (read when the router is created) */
+  "case sensitive routing": boolean;
+  /** Whether routes match trailing slashes exactly (read when the router is created) */
+  "strict routing": boolean;
+  /** Environment name, from DENO_ENV or "development" */
+  env: string;
+  /** ETag generation for res.send bodies: weak, strong, disabled or custom */
+  etag: EtagSetting;
+  /** ETag generator compiled from "etag" */
+  "etag fn"?: EtagFunction;
+  /** Replacer passed to JSON.stringify by res.json */
+  "json replacer"?: (key: string, value: unknown) => unknown;
+  /** Indentation passed to JSON.stringify by res.json */
+  "json spaces"?: number | string;
+  /** How req.query is parsed: extended, simple, disabled or custom */
+  "query parser": QueryParserSetting;
+  /** Query parser compiled from "query parser" */
+  "query parser fn": QueryParser;
+  /** Which proxies to trust for X-Forwarded-For, -Proto and -Host */
+  "trust proxy": TrustProxySetting;
+  /** Trust function compiled from "trust proxy" */
+  "trust proxy fn": TrustFunction;
+  /** Directory or directories searched for views (defaults to "views") */
+  views: string | string[];
+  /** Extension used for view names without one, such as "html" */
+  "view engine"?: string;
+  /** Whether resolved views and compiled templates are cached (on in production) */
+  "view cache": boolean;
+  /** Receives framework diagnostics such as unhandled errors (defaults to console) */
+  logger: Logger;
+  /** Whether to send the X-Powered-By header */
+  "x-powered-by": boolean;
+}
+
+/**
+ * Values shared with the handlers and views of a single request. Extend this
+ * interface through declaration merging to type res.locals.
+ */
+export interface Locals {
+  [key: string]: unknown;
+}
+
+/**
+ * Registers route handlers for an HTTP method. `req.params` is inferred from
+ * the path, so "/users/:id" gives handlers `{ id: string }`. `Inherited`
+ * adds params merged from a parent router. Handlers after a validate()
+ * middleware, given first or after one middleware such as a body parser,
+ * see the validated request types.
+ */
+export type RouteMethod<
+  T,
+  Inherited extends RouteParams = Record<never, never>
+> = {
+  <Path extends string, S extends ValidationSchemas>(
+    path: Path,
+    validator: ValidationMiddleware<S>,
+    ...handlers: ValidatedHandler<PathParams<Path> & Inherited, S>[]
+  ): T;
+  <Path extends string, S extends ValidationSchemas>(
+    path: Path,
+    before: RouteHandler<PathParams<Path> & Inherited>,
+    validator: ValidationMiddleware<S>,
+    ...handlers: ValidatedHandler<PathParams<Path> & Inherited, S>[]
+  ): T;
+  <Path extends string>(
+    path: Path,
+    ...handlers: RouteHandler<PathParams<Path> & Inherited>[]
+  ): T;
+};
+
 /**
  * application interface with HTTP method handlers.
  */
-export interface App {
+export interface App extends Record<HttpMethod, RouteMethod<App>> {
   /** Router instance that manages routes */
   _router?: Router;
   /** Application settings and configuration */
-  settings: Record<string, unknown>;
+  settings: AppSettings;
+  /** The app this app is mounted on, if any */
+  parent?: App;
+  /** The path this app is mounted at */
+  mountpath: string;
+  /** Values available to every view rendered by this app */
+  locals: Locals;
+  /** View engines by extension; mounted sub-apps inherit their parent's */
+  engines: Record<string, EngineFunction>;
+  /** Open WebSocket connections from this app's ws routes, grouped into rooms */
+  sockets: WebSocketHub;
+  /** Forwards to the logger in the "logger" setting at the time of each call */
+  logger: Logger;
   /** Response extensions for enhancing the response context */
   responseExtensions?: Record<string, unknown>;
 
   /**
-   * Starts the HTTP server on the specified port.
-   * @param {number} port - The port to listen on
-   * @param {Function} [callback] - Optional callback function to execute when server starts
+   * Starts the HTTP server on a port or with listen options.
+   * @param {number|ListenOptions} portOrOptions - The port, or the listen options
+   * @param {Function} [callback] - Called with the bound address once the server is listening
+   * @returns {ServerHandle} A handle for reading the address and closing the server
    */
-  listen: (port: number, callback?: () => void) => void;
+  listen: (
+    portOrOptions: number | ListenOptions,
+    callback?: (addr: Deno.Addr) => void
+  ) => ServerHandle;
 
   /**
    * Handles incoming HTTP requests and routes them to the appropriate handler.
    * @param {Request} req - The incoming request object
+   * @param {Deno.ServeHandlerInfo} [info] - Connection information from Deno.serve
    * @returns {Promise<Response>} A response object
    */
-  handle: (req: Request) => Promise<Response>;
+  handle: (
+    req: Request,
+    info?: Deno.ServeHandlerInfo<Deno.Addr>
+  ) => Promise<Response>;
 
   /**
-   * Registers a route handler for GET requests.
-   * @param {string} path - The route path to match
+   * Registers a route handler for GET requests. Called with only a name,
+   * returns the value of that setting instead.
+   * @param {string} path - The route path to match, or a setting name
    * @param {...RouteHandler} handlers - One or more handler functions
    * @returns {App} This app instance for chaining
    */
-  get: (path: string, ...handlers: RouteHandler[]) => App;
+  get: {
+    <K extends keyof AppSettings>(name: K): AppSettings[K];
+    (name: string): unknown;
+    <Path extends string, S extends ValidationSchemas>(
+      path: Path,
+      validator: ValidationMiddleware<S>,
+      ...handlers: ValidatedHandler<PathParams<Path>, S>[]
+    ): App;
+    <Path extends string, S extends ValidationSchemas>(
+      path: Path,
+      before: RouteHandler<PathParams<Path>>,
+      validator: ValidationMiddleware<S>,
+      ...handlers: ValidatedHandler<PathParams<Path>, S>[]
+    ): App;
+    <Path extends string>(
+      path: Path,
+      ...handlers: RouteHandler<PathParams<Path>>[]
+    ): App;
+  };
+
+  /**
+   * Assigns a setting. Well-known settings such as "trust proxy", "etag" and
+   * "query parser" change how requests and responses are handled.
+   * @param {string} name - The setting name
+   * @param {unknown} value - The setting value
+   * @returns {App} This app instance for chaining
+   */
+  set: {
+    <K extends keyof AppSettings>(name: K, value: AppSettings[K]): App;
+    (name: string, value: unknown): App;
+  };
+
+  /**
+   * Registers a view engine for a file extension. ".html" uses the built-in
+   * template engine unless overridden.
+   * @param {string} ext - The extension, with or without the leading dot
+   * @param {EngineFunction} fn - Renders a template file with locals
+   * @returns {App} This app instance for chaining
+   */
+  engine: (ext: string, fn: EngineFunction) => App;
+
+  /**
+   * Renders a view with app.locals merged with the given locals.
+   * @param {string} name - The view name, resolved against the "views" setting
+   * @param {Record<string, unknown>} [locals] - Values for the view
+   * @returns {Promise<string>} The rendered output
+   */
+  render: (name: string, locals?: Record<string, unknown>) => Promise<string>;
+
+  /**
+   * Generates an OpenAPI 3.1 document describing this app's routes,
+   * including those of mounted routers and sub-apps.
+   * @param {OpenApiOptions} [options] - Document info, servers and security
+   * @returns {OpenApiDocument} The OpenAPI document
+   */
+  openapi: (options?: OpenApiOptions) => OpenApiDocument;
+
+  /**
+   * Lists every route method registered on this app, including those of
+   * mounted routers and sub-apps, in the order requests reach them.
+   * @returns {RouteInfo[]} The method, full path, mount path, handler names and middleware chain of each
+   */
+  routes: () => RouteInfo[];
+
+  /**
+   * Sets a boolean setting to true.
+   * @param {string} name - The setting name
+   * @returns {App} This app instance for chaining
+   */
+  enable: (name: string) => App;
+
+  /**
+   * Sets a boolean setting to false.
+   * @param {string} name - The setting name
+   * @returns {App} This app instance for chaining
+   */
+  disable: (name: string) => App;
+
+  /**
+   * Checks whether a setting is truthy.
+   * @param {string} name - The setting name
+   * @returns {boolean} True if the setting is enabled
+   */
+  enabled: (name: string) => boolean;
+
+  /**
+   * Checks whether a setting is falsy.
+   * @param {string} name - The setting name
+   * @returns {boolean} True if the setting is disabled
+   */
+  disabled: (name: string) => boolean;
 
   /**
    * Registers a route handler for POST requests.
@@ -57,7 +289,7 @@ export interface App {
    * @param {...RouteHandler} handlers - One or more handler functions
    * @returns {App} This app instance for chaining
    */
-  post: (path: string, ...handlers: RouteHandler[]) => App;
+  post: RouteMethod<App>;
 
   /**
    * Registers a route handler for PUT requests.
@@ -65,7 +297,7 @@ export interface App {
    * @param {...RouteHandler} handlers - One or more handler functions
    * @returns {App} This app instance for chaining
    */
-  put: (path: string, ...handlers: RouteHandler[]) => App;
+  put: RouteMethod<App>;
 
   /**
    * Registers a route handler for DELETE requests.
@@ -73,7 +305,58 @@ export interface App {
    * @param {...RouteHandler} handlers - One or more handler functions
    * @returns {App} This app instance for chaining
    */
-  delete: (path: string, ...handlers: RouteHandler[]) => App;
+  delete: RouteMethod<App>;
+
+  /**
+   * Registers a route handler for PATCH requests.
+   * @param {string} path - The route path to match
+   * @param {...RouteHandler} handlers - One or more handler functions
+   * @returns {App} This app instance for chaining
+   */
+  patch: RouteMethod<App>;
+
+  /**
+   * Registers a route handler for OPTIONS requests.
+   * @param {string} path - The route path to match
+   * @param {...RouteHandler} handlers - One or more handler functions
+   * @returns {App} This app instance for chaining
+   */
+  options: RouteMethod<App>;
+
+  /**
+   * Registers a route handler for HEAD requests.
+   * @param {string} path - The route path to match
+   * @param {...RouteHandler} handlers - One or more handler functions
+   * @returns {App} This app instance for chaining
+   */
+  head: RouteMethod<App>;
+
+  /**
+   * Registers a WebSocket route. Upgrade requests pass through middleware
+   * like other requests; others skip the route, reaching later routes for
+   * the same path, and receive 426 Upgrade Required if none answers. The
+   * socket handler runs once the connection is open. routes() lists the
+   * route with the method "WS"; openapi() leaves it out.
+   * @param {string} path - The route path to match
+   * @param {WebSocketOptions} [options] - Subprotocol and keepalive options
+   * @param {...(RouteHandler|WebSocketHandler)} handlers - Route middleware followed by the socket handler
+   * @returns {App} This app instance for chaining
+   */
+  ws: WebSocketMethod<App>;
+
+  /**
+   * Registers middleware or mounts a router or sub-app, optionally at a path
+   * prefix. Handlers taking four arguments are registered as error handlers.
+   * @param {string} [path] - The path prefix to mount at (defaults to "/")
+   * @param {...(RouteHandler|ErrorHandler|Router|App)} handlers - Middleware functions, routers or apps
+   * @returns {App} This app instance for chaining
+   */
+  use: {
+    (...handlers: Array<RouteHandler | Router | App>): App;
+    (path: string, ...handlers: Array<RouteHandler | Router | App>): App;
+    (...handlers: ErrorHandler[]): App;
+    (path: string, ...handlers: ErrorHandler[]): App;
+  };
 
   /**
    * Initialize the router if it doesn't exist
@@ -84,20 +367,170 @@ export interface App {
    * Initialize the application
    */
   init: () => void;
+}
 
-  /** other HTTP methods */
-  [key: string]: unknown;
+/**
+ * Route parameters captured from the request path.
+ */
+export type RouteParams = Record<string, string>;
+
+/**
+ * Request context passed to handlers, extending the Web Request.
+ * `body` holds the raw stream until a body parser replaces it with parsed data.
+ */
+export interface RequestContext<
+  P extends RouteParams = RouteParams,
+  B = unknown
+> extends Omit<Request, "body"> {
+  /** The application handling the request */
+  app: App;
+  /** Parameters captured from the matched route path */
+  params: P;
+  /** The parsed request body, or the raw body stream if no parser ran */
+  body: B;
+  /** The request path relative to the current router's mount point */
+  path: string;
+  /** The path the current router is mounted at */
+  baseUrl: string;
+  /** The original request path and query string, unaffected by mounting */
+  originalUrl: string;
+  /** The parsed query string, with nested objects and arrays */
+  query: ParsedQuery;
+  /** The host name from the Host header, without the port */
+  hostname: string;
+  /** The request protocol, "http" or "https" */
+  protocol: string;
+  /** Whether the request was made over HTTPS */
+  secure: boolean;
+  /** The client address, honoring the "trust proxy" setting, or "" if unknown */
+  ip: string;
+  /** Addresses from X-Forwarded-For through trusted proxies, client first */
+  ips: string[];
+  /** Cookies sent with the request */
+  cookies: Record<string, string>;
+  /** The session, set by the session middleware */
+  session: Session;
+  /**
+   * Methods of the routes that matched the path but not the request method,
+   * collected across mounted routers to answer 405 and OPTIONS
+   */
+  _allowedMethods?: Set<string>;
+  /**
+   * Whether a WebSocket route matched a request that is not an upgrade, so
+   * it is answered with 426 when no other route handles it
+   */
+  _upgradeRequired?: boolean;
+
+  /**
+   * Gets a request header. "Referer" and "Referrer" are interchangeable.
+   * @param {string} field - The header name
+   * @returns {string | null} The header value, or null if absent
+   */
+  get: (field: string) => string | null;
+
+  /**
+   * Picks the best of the offered types (such as "json" or "text/html")
+   * for the Accept header, or lists the accepted types if none are offered.
+   */
+  accepts: {
+    (): string[];
+    (...types: string[]): string | false;
+  };
+
+  /**
+   * Picks the best of the offered languages for the Accept-Language header,
+   * or lists the accepted languages if none are offered.
+   */
+  acceptsLanguages: {
+    (): string[];
+    (...languages: string[]): string | false;
+  };
+
+  /**
+   * Picks the best of the offered codings for the Accept-Encoding header,
+   * or lists the accepted codings if none are offered.
+   */
+  acceptsEncodings: {
+    (): string[];
+    (...encodings: string[]): string | false;
+  };
+
+  /**
+   * Checks whether the request body's Content-Type matches any of the types.
+   * @param {...string} types - Media types, extensions or shorthands such as "json"
+   * @returns {string | false | null} The matching type, false, or null without a body
+   */
+  is: (...types: string[]) => string | false | null;
 }
 
 /**
  * Route handler function signature.
  */
-export type RouteHandler = (
-  req: Request,
+export type RouteHandler<P extends RouteParams = RouteParams> = (
+  req: RequestContext<P>,
   res: ResponseContext,
   next?: NextFunction
 ) => Promise<void> | void;
 
+/**
+ * Error-handling middleware signature, distinguished by taking four arguments.
+ */
+export type ErrorHandler = (
+  err: unknown,
+  req: RequestContext,
+  res: ResponseContext,
+  next: NextFunction
+) => Promise<void> | void;
+
+/**
+ * Body types accepted by ResponseContext.send.
+ */
+export type ResponseBody =
+  | Response
+  | string
+  | Uint8Array
+  | ArrayBuffer
+  | Blob
+  | ReadableStream<Uint8Array>
+  | object
+  | null;
+
+/**
+ * Runs when send() starts, before the Response is built, so it can still set
+ * headers and cookies on the response context.
+ */
+export type HeadersHook = (res: ResponseContext) => void | Promise<void>;
+
+/**
+ * Runs just before a Response is handed back. It may change the Response's
+ * headers, or return a replacement to change the status or body, such as a
+ * compressed copy.
+ */
+export type BeforeSendHook = (
+  response: Response
+) => Response | void | Promise<Response | void>;
+
+/**
+ * Details of a response that has been fully sent
+ */
+export interface FinishInfo {
+  /** The final status code */
+  status: number;
+  /** The final response headers */
+  headers: Headers;
+  /** The number of body bytes sent, after any content encoding */
+  bytes: number;
+  /** Milliseconds from the start of handling until the body finished */
+  duration: number;
+  /** Whether the client went away before the body finished */
+  aborted: boolean;
+}
+
+/**
+ * Runs once the response body has been fully sent or the client went away.
+ */
+export type FinishListener = (info: FinishInfo) => void;
+
 /**
  * Context for building and sending HTTP responses.
  */
@@ -105,6 +538,12 @@ export interface ResponseContext {
   /** HTTP status code for the response */
   statusCode?: number;
 
+  /** Values shared with later handlers and views for this request */
+  locals: Locals;
+
+  /** Whether the response headers have been sent */
+  readonly headersSent: boolean;
+
   /**
    * Sets the HTTP status code for the response.
    * @param {number} code - The HTTP status code
@@ -113,11 +552,13 @@ export interface ResponseContext {
   status: (code: number) => ResponseContext;
 
   /**
-   * Sends a string response with the configured status and headers.
-   * @param {string} body - The response body text
+   * Sends a response with the configured status and headers. Strings default
+   * to HTML, binary data to application/octet-stream and plain objects to JSON.
+   * A Response is sent as-is.
+   * @param {ResponseBody} [body] - The response body
    * @returns {Promise<Response>} The created Response object
    */
-  send: (body: string) => Promise<Response>;
+  send: (body?: ResponseBody) => Promise<Response>;
 
   /**
    * Sends a JSON response with the configured status and headers.
@@ -126,14 +567,189 @@ export interface ResponseContext {
    */
   json: (body: unknown) => Promise<Response>;
 
+  /**
+   * Sets the status code and sends its reason phrase as the body.
+   * @param {number} code - The HTTP status code
+   * @returns {Promise<Response>} The created Response object
+   */
+  sendStatus: (code: number) => Promise<Response>;
+
+  /**
+   * Redirects to a URL with the given status (defaults to 302).
+   * @param {number|string} statusOrUrl - The status code, or the URL
+   * @param {string} [url] - The URL when a status code is given
+   * @returns {Promise<Response>} The created Response object
+   */
+  redirect: {
+    (url: string): Promise<Response>;
+    (status: number, url: string): Promise<Response>;
+  };
+
+  /**
+   * Sets one header, or several from an object. Arrays set multiple values.
+   * @param {string|Record<string, string|string[]>} field - The header name or a map of headers
+   * @param {string|string[]} [value] - The header value
+   * @returns {ResponseContext} This context for chaining
+   */
+  set: {
+    (field: string, value: string | string[]): ResponseContext;
+    (fields: Record<string, string | string[]>): ResponseContext;
+  };
+
+  /**
+   * Gets a response header value.
+   * @param {string} field - The header name
+   * @returns {string | null} The header value, or null if unset
+   */
+  get: (field: string) => string | null;
+
+  /**
+   * Appends a value to a response header.
+   * @param {string} field - The header name
+   * @param {string|string[]} value - The value or values to append
+   * @returns {ResponseContext} This context for chaining
+   */
+  append: (field: string, value: string | string[]) => ResponseContext;
+
+  /**
+   * Sets the Content-Type from a media type or an extension such as "json".
+   * @param {string} type - The media type or extension
+   * @returns {ResponseContext} This context for chaining
+   */
+  type: (type: string) => ResponseContext;
+
+  /**
+   * Sets the Location header. "back" uses the Referer or "/".
+   * @param {string} url - The location URL
+   * @returns {ResponseContext} This context for chaining
+   */
+  location: (url: string) => ResponseContext;
+
+  /**
+   * Adds a field to the Vary header if it is not already present.
+   * @param {string|string[]} field - The header name or names
+   * @returns {ResponseContext} This context for chaining
+   */
+  vary: (field: string | string[]) => ResponseContext;
+
+  /**
+   * Adds relations to the Link header.
+   * @param {Record<string, string>} links - A map of rel names to URLs
+   * @returns {ResponseContext} This context for chaining
+   */
+  links: (links: Record<string, string>) => ResponseContext;
+
+  /**
+   * Marks the response as a download, setting Content-Disposition and the
+   * Content-Type from the filename's extension.
+   * @param {string} [filename] - The suggested file name
+   * @returns {ResponseContext} This context for chaining
+   */
+  attachment: (filename?: string) => ResponseContext;
+
+  /**
+   * Sets a cookie. Objects are serialized as JSON with a "j:" prefix.
+   * @param {string} name - The cookie name
+   * @param {string|object} value - The cookie value
+   * @param {CookieOptions} [options] - Cookie attributes
+   * @returns {ResponseContext} This context for chaining
+   */
+  cookie: (
+    name: string,
+    value: string | object,
+    options?: CookieOptions
+  ) => ResponseContext;
+
+  /**
+   * Registers a hook that runs once, in registration order, before the
+   * headers are turned into a Response, e.g. to save state and set a cookie.
+   * @param {HeadersHook} hook - The hook
+   * @returns {ResponseContext} This context for chaining
+   */
+  onHeaders: (hook: HeadersHook) => ResponseContext;
+
+  /**
+   * Registers a hook that can wrap or replace the final Response. Hooks run
+   * in reverse order of registration, so middleware registered first sees
+   * the Response last.
+   * @param {BeforeSendHook} hook - The hook
+   * @returns {ResponseContext} This context for chaining
+   */
+  onBeforeSend: (hook: BeforeSendHook) => ResponseContext;
+
+  /**
+   * Registers a listener called once the body has been fully sent, with the
+   * final status, byte count and duration.
+   * @param {FinishListener} listener - The listener
+   * @returns {ResponseContext} This context for chaining
+   */
+  onFinish: (listener: FinishListener) => ResponseContext;
+
+  /**
+   * Writes a chunk of a streaming body, sending the headers with the first
+   * write. Strings default the Content-Type to HTML.
+   * @param {string|Uint8Array} chunk - The data to write
+   * @returns {boolean} False if the client is not keeping up or has disconnected
+   */
+  write: (chunk: string | Uint8Array) => boolean;
+
+  /**
+   * Ends a streaming body after writing an optional last chunk. Without
+   * earlier writes, sends the chunk as the whole body.
+   * @param {string|Uint8Array} [chunk] - The last data to write
+   * @returns {Promise<Response>} The created Response object
+   */
+  end: (chunk?: string | Uint8Array) => Promise<Response>;
+
+  /**
+   * Sends the headers now, starting a streaming body for later writes.
+   * @returns {ResponseContext} This context for chaining
+   */
+  flushHeaders: () => ResponseContext;
+
+  /**
+   * Opens a Server-Sent Events stream, sending the headers immediately.
+   * @param {SseOptions} [options] - Heartbeat interval and initial retry delay
+   * @returns {EventStream} The stream for sending events
+   */
+  sse: (options?: SseOptions) => EventStream;
+
+  /**
+   * Renders a view with app.locals, res.locals and the given locals, and
+   * sends it as HTML unless a Content-Type was set.
+   * @param {string} view - The view name, resolved against the "views" setting
+   * @param {Record<string, unknown>} [locals] - Values for the view
+   * @returns {Promise<Response>} The created Response object
+   */
+  render: (view: string, locals?: Record<string, unknown>) => Promise<Response>;
+
+  /**
+   * Clears a cookie by expiring it.
+   * @param {string} name - The cookie name
+   * @param {CookieOptions} [options] - Attributes matching those used to set it
+   * @returns {ResponseContext} This context for chaining
+   */
+  clearCookie: (name: string, options?: CookieOptions) => ResponseContext;
+
   /** Headers for the response */
   headers: Headers;
 
   /** The created Response object, if any */
   _response: Response | null;
+}
 
-  /** Additional properties by response extensions */
-  [key: string]: unknown;
+/**
+ * Checks whether a value passed to app.use() is an application
+ * @param {unknown} value - The value to check
+ * @returns {boolean} True if the value is an App
+ */
+function isApp(value: unknown): value is App {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "settings" in value &&
+    "lazyrouter" in value
+  );
 }
 
 /**
@@ -143,7 +759,15 @@ export interface ResponseContext {
  */
 export function createApp(options: AppOptions = {}): App {
   let router: Router | undefined = undefined;
-  const settings: Record<string, unknown> = {};
+  const settings: AppSettings = Object.create(createDefaultSettings());
+  const engines: Record<string, EngineFunction> = { ".html": renderFile };
+  const viewCache = new Map<string, View>();
+  const logger: Logger = {
+    debug: (...args) => app.get("logger").debug(...args),
+    info: (...args) => app.get("logger").info(...args),
+    warn: (...args) => app.get("logger").warn(...args),
+    error: (...args) => app.get("logger").error(...args),
+  };
 
   const responseExtensions: Record<string, unknown> = {
     // Here we can define additional methods for the response
@@ -153,19 +777,42 @@ export function createApp(options: AppOptions = {}): App {
     },
   };
 
-  const createMethodHandler = (method: string) => {
-    return function (path: string, ...handlers: RouteHandler[]): App {
+  const createMethodHandler = (method: HttpMethod): RouteMethod<App> => {
+    return function (path: string, ...handlers: RouteHandler[]) {
       app.lazyrouter();
       if (!router) {
         throw new Error("Router initialization failed");
       }
 
-      const route = router.route(path);
-      (route as unknown as Record<string, (...args: RouteHandler[]) => void>)[
-        method
-      ](...handlers);
+      router.route(path).addMethod(method, ...handlers);
 
       return app;
+    } as RouteMethod<App>;
+  };
+
+  const getRoute = createMethodHandler("get");
+
+  /**
+   * Mounts a sub-app: its settings and engines inherit from this app's, and
+   * req.app points at the sub-app while its stack runs
+   * @param {string} path - The mount path
+   * @param {App} subApp - The app to mount
+   * @returns {RouteHandler} Middleware dispatching into the sub-app
+   */
+  const mountApp = (path: string, subApp: App): RouteHandler => {
+    subApp.parent = app;
+    subApp.mountpath = path;
+    Object.setPrototypeOf(subApp.settings, settings);
+    Object.setPrototypeOf(subApp.engines, engines);
+
+    return function mountedApp(req, res, next) {
+      const parentApp = req.app;
+
+      subApp.lazyrouter();
+      subApp._router?.dispatch(req, res, (err?: unknown) => {
+        req.app = parentApp;
+        next?.(err);
+      });
     };
   };
 
@@ -180,50 +827,192 @@ export function createApp(options: AppOptions = {}): App {
 
     settings,
     responseExtensions,
+    mountpath: "/",
+    locals: {},
+    engines,
+    sockets: createWebSocketHub(),
+    logger,
 
     lazyrouter() {
       if (!router) {
-        router = createRouter(options);
+        router = createRouter({
+          caseSensitive: app.enabled("case sensitive routing"),
+          strict: app.enabled("strict routing"),
+          logger,
+        });
 
         router.use(init(app));
       }
     },
 
     init() {
-     
+      if (options.caseSensitive !== undefined) {
+        app.set("case sensitive routing", options.caseSensitive);
+      }
+      if (options.strict !== undefined) {
+        app.set("strict routing", options.strict);
+      }
+    },
+
+    set(name: string, value: unknown): App {
+      applySetting(settings, name, value);
+      return app;
+    },
+
+    engine(ext: string, fn: EngineFunction): App {
+      engines[normalizeExtension(ext)] = fn;
+      return app;
+    },
+
+    async render(
+      name: string,
+      locals: Record<string, unknown> = {}
+    ): Promise<string> {
+      const cache = app.enabled("view cache");
+      let view = cache ? viewCache.get(name) : undefined;
+
+      if (!view) {
+        view = await lookupView(name, {
+          root: app.get("views"),
+          defaultEngine: app.get("view engine"),
+          engines,
+        });
+        if (cache) {
+          viewCache.set(name, view);
+        }
+      }
+
+      return await view.engine(view.path, { ...app.locals, ...locals, cache });
+    },
+
+    openapi(options?: OpenApiOptions): OpenApiDocument {
+      app.lazyrouter();
+      if (!router) {
+        throw new Error("Router initialization failed");
+      }
+
+      return generateOpenApi(router, options);
+    },
+
+    routes(): RouteInfo[] {
+      app.lazyrouter();
+      if (!router) {
+        throw new Error("Router initialization failed");
+      }
+
+      return listRoutes(router);
+    },
+
+    enable(name: string): App {
+      return app.set(name, true);
+    },
+
+    disable(name: string): App {
+      return app.set(name, false);
+    },
+
+    enabled(name: string): boolean {
+      return Boolean(app.get(name));
+    },
+
+    disabled(name: string): boolean {
+      return !app.get(name);
+    },
+
+    use(
+      ...args: Array<string | RouteHandler | ErrorHandler | Router | App>
+    ): App {
+      app.lazyrouter();
+      if (!router) {
+        throw new Error("Router initialization failed");
+      }
+
+      const path = typeof args[0] === "string" ? args[0] : "/";
+      const handlers = args.map((arg) =>
+        isApp(arg) ? mountApp(path, arg) : arg
+      );
+
+      const { stack } = router;
+      const firstLayer = stack.length;
+      router.use(...(handlers as [string, ...Array<RouteHandler | Router>]));
+
+      // Expose mounted apps' routers so allowedMethods() can look inside them
+      args
+        .filter((arg) => typeof arg !== "string")
+        .forEach((arg, i) => {
+          if (isApp(arg)) {
+            arg.lazyrouter();
+            stack[firstLayer + i].router = arg._router;
+          }
+        });
+
+      return app;
     },
 
-    listen(port: number, callback?: () => void): void {
+    listen(
+      portOrOptions: number | ListenOptions,
+      callback?: (addr: Deno.Addr) => void
+    ): ServerHandle {
       this.lazyrouter();
 
-      Deno.serve({ port }, (request) => {
-        return app.handle(request);
-      });
+      const options =
+        typeof portOrOptions === "number"
+          ? { port: portOrOptions }
+          : portOrOptions;
 
-      if (callback) callback();
+      return startServer(
+        (request, info) => app.handle(request, info),
+        { logger, ...options },
+        callback
+      );
     },
 
-    async handle(req: Request): Promise<Response> {
+    async handle(
+      req: Request,
+      info?: Deno.ServeHandlerInfo<Deno.Addr>
+    ): Promise<Response> {
       this.lazyrouter();
 
       if (!router) {
         return new Response("Router initialization failed", { status: 500 });
       }
 
-      return await router.handle(req);
+      if (info) {
+        setConnectionInfo(req, info);
+      }
+
+      return await router.handle(req, options.errorHandler);
     },
 
-    get: createMethodHandler("get"),
+    get: function (name: string, ...handlers: RouteHandler[]) {
+      if (handlers.length === 0) {
+        return (settings as unknown as Record<string, unknown>)[name];
+      }
+      return getRoute(name, ...handlers);
+    } as App["get"],
     post: createMethodHandler("post"),
     put: createMethodHandler("put"),
     delete: createMethodHandler("delete"),
+    patch: createMethodHandler("patch"),
+    options: createMethodHandler("options"),
+    head: createMethodHandler("head"),
+    ws: function (
+      path: string,
+      ...args: Array<WebSocketOptions | RouteHandler | WebSocketHandler>
+    ) {
+      app.lazyrouter();
+      if (!router) {
+        throw new Error("Router initialization failed");
+      }
+
+      const route = router.route(path);
+      route.websocket = true;
+      route.addMethod("get", ...createWebSocketRoute(args));
+
+      return app;
+    } as App["ws"],
   };
 
-  methods.forEach((method) => {
-    if (!app[method]) {
-      app[method] = createMethodHandler(method);
-    }
-  });
   app.init();
 
   return app;
@@ -0,0 +1,95 @@
+/**
+ * @file errors.ts
+ * @description Defines the HTTP error type used to pass status information
+ * down the middleware chain with next(err).
+ * @author Sriram Sundar
+ */
+
+import STATUS_TEXT from "./status.ts";
+
+/**
+ * Options for creating an HttpError
+ */
+export interface HttpErrorOptions {
+  /** Whether the message is safe to send to the client (defaults to status < 500) */
+  expose?: boolean;
+  /** The underlying cause of the error */
+  cause?: unknown;
+}
+
+/**
+ * An error carrying an HTTP status code and whether its message may be
+ * exposed to the client.
+ */
+export class HttpError extends Error {
+  /** The HTTP status code for the response */
+  status: number;
+
+  /** Whether the message is safe to send to the client */
+  expose: boolean;
+
+  /**
+   * Creates a new HttpError
+   * @param {number} [status=500] - The HTTP status code
+   * @param {string} [message] - The error message (defaults to the status text)
+   * @param {HttpErrorOptions} [options={}] - Optional error options
+   */
+  constructor(status = 500, message?: string, options: HttpErrorOptions = {}) {
+    super(message ?? STATUS_TEXT[status] ?? "Unknown Error", {
+      cause: options.cause,
+    });
+    this.name = "HttpError";
+    this.status = status;
+    this.expose = options.expose ?? status < 500;
+  }
+}
+
+/**
+ * Gets the HTTP status for an error, following the err.status / err.statusCode
+ * convention and falling back to 500 for anything outside the error range.
+ * @param {unknown} err - The error value
+ * @returns {number} The HTTP status code
+ */
+export function getErrorStatus(err: unknown): number {
+  if (typeof err === "object" && err !== null) {
+    const { status, statusCode } = err as Record<string, unknown>;
+    const code = typeof status === "number" ? status : statusCode;
+
+    if (typeof code === "number" && code >= 400 && code < 600) {
+      return code;
+    }
+  }
+
+  return 500;
+}
+
+/**
+ * A problem found while validating part of a request
+ */
+export interface ValidationIssue {
+  /** The part of the request the problem is in */
+  location: "params" | "query" | "headers" | "body";
+  /** The keys leading to the invalid value, empty for the part itself */
+  path: Array<string | number>;
+  /** Describes the problem */
+  message: string;
+}
+
+/**
+ * A 400 error listing every problem found while validating a request.
+ */
+export class ValidationError extends HttpError {
+  /** The problems found */
+  issues: ValidationIssue[];
+
+  /**
+   * Creates a new ValidationError
+   * @param {ValidationIssue[]} issues - The problems found
+   * @param {string} [message="Validation failed"] - The error message
+   */
+  constructor(issues: ValidationIssue[], message = "Validation failed") {
+    super(400, message);
+    this.name = "ValidationError";
+    this.issues = issues;
+  }
+}
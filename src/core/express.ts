@@ -4,14 +4,124 @@
  * @author Sriram Sundar
  */
 
-import { App, createApp } from "./app.ts";
+import { App, AppOptions, createApp } from "./app.ts";
+import { createRouter } from "../router/router.ts";
+import { json, multipart, raw, text, urlencoded } from "../middleware/body.ts";
+import { serveStatic } from "../middleware/static.ts";
+import { cors } from "../middleware/cors.ts";
+import { compression } from "../middleware/compression.ts";
+import { logger } from "../middleware/logger.ts";
+import { session } from "../middleware/session.ts";
+import { validate } from "../middleware/validate.ts";
+import { routeInspector } from "../middleware/routes.ts";
+import { describeRoute } from "../openapi/describe.ts";
+import { openapiDocs } from "../openapi/docs.ts";
 
 /**
  * Creates a new application
+ * @param {AppOptions} [options={}] - Optional configuration options
  * @returns {App} A configured application instance with HTTP method handlers.
  */
-export function createApplication(): App {
-  return createApp();
+export function createApplication(options: AppOptions = {}): App {
+  return createApp(options);
 }
 
+/**
+ * Creates a new router that can be mounted with app.use()
+ */
+createApplication.Router = createRouter;
+
+/**
+ * Built-in body parsing middleware factories
+ */
+createApplication.json = json;
+createApplication.urlencoded = urlencoded;
+createApplication.text = text;
+createApplication.raw = raw;
+createApplication.multipart = multipart;
+
+/**
+ * Built-in static file serving middleware factory
+ */
+createApplication.static = serveStatic;
+
+/**
+ * Built-in CORS middleware factory
+ */
+createApplication.cors = cors;
+
+/**
+ * Built-in response compression middleware factory
+ */
+createApplication.compression = compression;
+
+/**
+ * Built-in request logging middleware factory
+ */
+createApplication.logger = logger;
+
+/**
+ * Built-in session middleware factory
+ */
+createApplication.session = session;
+
+/**
+ * Built-in request validation middleware factory
+ */
+createApplication.validate = validate;
+
+/**
+ * Built-in route documentation and OpenAPI docs middleware factories
+ */
+createApplication.describeRoute = describeRoute;
+createApplication.openapiDocs = openapiDocs;
+
+/**
+ * Built-in development route inspector middleware factory
+ */
+createApplication.routeInspector = routeInspector;
+
+export { HttpError, ValidationError } from "./errors.ts";
+export type { ValidationIssue } from "./errors.ts";
+export { errorHandler } from "../middleware/error.ts";
+export { serveStatic } from "../middleware/static.ts";
+export { cors } from "../middleware/cors.ts";
+export { compression } from "../middleware/compression.ts";
+export { logger } from "../middleware/logger.ts";
+export { session } from "../middleware/session.ts";
+export { createMemoryStore } from "../session/store.ts";
+export { createKvStore } from "../session/kv.ts";
+export { validate } from "../middleware/validate.ts";
+export { routeInspector } from "../middleware/routes.ts";
+export { v } from "../validation/schema.ts";
+export { describeRoute } from "../openapi/describe.ts";
+export { openapiDocs } from "../openapi/docs.ts";
+export { generateOpenApi } from "../openapi/openapi.ts";
+export type { EngineFunction } from "../view/view.ts";
+export type { EventStream, SseOptions } from "../http/sse.ts";
+export type { Session, SessionOptions } from "../middleware/session.ts";
+export type { SessionData, SessionStore } from "../session/store.ts";
+export type {
+  ValidatedRequest,
+  ValidationSchemas,
+} from "../middleware/validate.ts";
+export type { Infer, Schema } from "../validation/schema.ts";
+export type {
+  JsonSchema,
+  StandardJsonSchemaV1,
+  StandardSchemaV1,
+} from "../validation/standard.ts";
+export type { ResponseMeta, RouteMeta } from "../openapi/describe.ts";
+export type { OpenApiDocsOptions } from "../openapi/docs.ts";
+export type { OpenApiDocument, OpenApiOptions } from "../openapi/openapi.ts";
+export type { RouteInfo } from "../router/inspect.ts";
+export type { RouteInspectorOptions } from "../middleware/routes.ts";
+export type {
+  WebSocketClient,
+  WebSocketHandler,
+  WebSocketHub,
+  WebSocketOptions,
+} from "../http/websocket.ts";
+export { renderFile } from "../view/template.ts";
+
 export default createApplication;
@@ -7,7 +7,7 @@
 /**
  * Array of supported HTTP methods in lowercase.
  */
-const methods: string[] = [
+const methods = [
   "get",
   "post",
   "put",
@@ -15,6 +15,11 @@ const methods: string[] = [
   "patch",
   "options",
   "head",
-];
+] as const;
+
+/**
+ * A supported HTTP method name in lowercase.
+ */
+export type HttpMethod = (typeof methods)[number];
 
 export default methods;
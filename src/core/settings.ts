@@ -0,0 +1,135 @@
+/**
+ * @file settings.ts
+ * @description Default application settings and the compiled functions
+ * derived from settings such as "trust proxy", "etag" and "query parser".
+ * @author Sriram Sundar
+ */
+
+import { AppSettings } from "./app.ts";
+import { createEtagFunction, EtagFunction } from "../utils/etag.ts";
+import { compileTrust, TrustFunction } from "../utils/proxy.ts";
+import { ParsedQuery, parseQuery } from "../utils/query.ts";
+import { Logger } from "../utils/logger.ts";
+
+/**
+ * Values accepted by the "trust proxy" setting
+ */
+export type TrustProxySetting =
+  | boolean
+  | number
+  | string
+  | string[]
+  | TrustFunction;
+
+/**
+ * Values accepted by the "etag" setting
+ */
+export type EtagSetting = boolean | "weak" | "strong" | EtagFunction;
+
+/**
+ * Parses a query string (without the leading "?") into req.query
+ */
+export type QueryParser = (query: string) => ParsedQuery;
+
+/**
+ * Values accepted by the "query parser" setting
+ */
+export type QueryParserSetting = boolean | "extended" | "simple" | QueryParser;
+
+/**
+ * Compiles the "etag" setting into an ETag generator
+ * @param {EtagSetting} value - The setting value
+ * @returns {EtagFunction | undefined} The generator, or undefined if disabled
+ */
+function compileEtag(value: EtagSetting): EtagFunction | undefined {
+  if (typeof value === "function") {
+    return value;
+  }
+
+  if (value === false) {
+    return undefined;
+  }
+
+  return createEtagFunction(value !== "strong");
+}
+
+/**
+ * Compiles the "query parser" setting into a query parser
+ * @param {QueryParserSetting} value - The setting value
+ * @returns {QueryParser} The query parser
+ */
+function compileQueryParser(value: QueryParserSetting): QueryParser {
+  if (typeof value === "function") {
+    return value;
+  }
+
+  if (value === false) {
+    return () => ({});
+  }
+
+  const extended = value !== "simple";
+  return (query) => parseQuery(query, { extended });
+}
+
+/**
+ * Reads the environment name from DENO_ENV, defaulting to "development"
+ * @returns {string} The environment name
+ */
+function defaultEnv(): string {
+  try {
+    return Deno.env.get("DENO_ENV") ?? "development";
+  } catch {
+    return "development";
+  }
+}
+
+/**
+ * Stores a setting, also updating the compiled function derived from it
+ * @param {AppSettings} settings - The settings object
+ * @param {string} name - The setting name
+ * @param {unknown} value - The setting value
+ */
+export function applySetting(
+  settings: AppSettings,
+  name: string,
+  value: unknown
+): void {
+  (settings as unknown as Record<string, unknown>)[name] = value;
+
+  switch (name) {
+    case "etag":
+      settings["etag fn"] = compileEtag(value as EtagSetting);
+      break;
+    case "query parser":
+      settings["query parser fn"] = compileQueryParser(
+        value as QueryParserSetting
+      );
+      break;
+    case "trust proxy":
+      settings["trust proxy fn"] = compileTrust(value as TrustProxySetting);
+      break;
+  }
+}
+
+/**
+ * Creates the default settings for a new application
+ * @returns {AppSettings} The default settings
+ */
+export function createDefaultSettings(): AppSettings {
+  const env = defaultEnv();
+  const settings = {
+    "case sensitive routing": false,
+    "strict routing": false,
+    env,
+    views: "views",
+    "view cache": env === "production",
+    logger: console as Logger,
+    "x-powered-by": true,
+  } as AppSettings;
+
+  applySetting(settings, "etag", "weak");
+  applySetting(settings, "query parser", "extended");
+  applySetting(settings, "trust proxy", false);
+
+  return settings;
+}
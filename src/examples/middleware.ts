@@ -4,8 +4,14 @@
  * @author Sriram Sundar
  */
 
-import express from "../core/express.ts";
-import { ResponseContext } from "../core/app.ts";
+import express, {
+  describeRoute,
+  HttpError,
+  v,
+  validate,
+} from "../core/express.ts";
+import { RequestContext, ResponseContext } from "../core/app.ts";
+import { NextFunction } from "../router/router.ts";
 const app = express();
 
 interface dataResponse extends ResponseContext {
@@ -15,37 +21,26 @@ interface dataResponse extends ResponseContext {
   };
 }
 
-const loggerMiddleware = (
-  req: Request,
-  _res: ResponseContext,
-  next?: () => void
-) => {
-  const url = new URL(req.url);
-  console.log(`[${new Date().toISOString()}] ${req.method} ${url.pathname}`);
-  next?.();
-};
+const loggerMiddleware = express.logger("dev");
 
 const timingMiddleware = (
-  req: Request,
-  _res: ResponseContext,
+  req: RequestContext,
+  res: ResponseContext,
   next?: () => void
 ) => {
-  const start = performance.now();
-
-  const cleanupFn = () => {
-    const end = performance.now();
+  res.onFinish(({ status, bytes, duration }) => {
     console.log(
-      `Request to ${new URL(req.url).pathname} took ${end - start}ms`
+      `Request to ${new URL(req.url).pathname} took ${duration.toFixed(
+        1
+      )}ms (${status}, ${bytes} bytes)`
     );
-  };
-
-  setTimeout(cleanupFn, 0);
+  });
 
   next?.();
 };
 
 const headerMiddleware = (
-  _req: Request,
+  _req: RequestContext,
   res: ResponseContext,
   next?: () => void
 ) => {
@@ -55,7 +50,7 @@ const headerMiddleware = (
 };
 
 const authMiddleware = (
-  req: Request,
+  req: RequestContext,
   res: ResponseContext,
   next?: () => void
 ) => {
@@ -72,7 +67,7 @@ const authMiddleware = (
 };
 
 const errorMiddleware = (
-  _req: Request,
+  _req: RequestContext,
   _res: ResponseContext,
   _next?: () => void
 ) => {
@@ -135,6 +130,10 @@ app.get(
   }
 );
 
+app.get("/next-error", loggerMiddleware, (_req, _res, next) => {
+  next?.(new HttpError(422, "Validation failed for this request"));
+});
+
 app.get(
   "/early-response",
   loggerMiddleware,
@@ -154,34 +153,52 @@ app.get("/json", loggerMiddleware, headerMiddleware, (_req, res) => {
   });
 });
 
-app.get("/echo", (req, res) => {
-  const url = new URL(req.url);
-  const message = url.searchParams.get("message") || "No message provided";
-  res.send(`You said: ${message}`);
+app.get(
+  "/echo",
+  describeRoute({
+    summary: "Echo a message",
+    tags: ["examples"],
+    responses: { 200: { contentType: "text/html" } },
+  }),
+  validate({
+    query: v.object({
+      message: v.string().max(200).default("No message provided"),
+    }),
+  }),
+  (req, res) => {
+    res.send(`You said: ${req.query.message}`);
+  }
+);
+
+app.post("/submit", loggerMiddleware, express.json(), (req, res) => {
+  res.json({
+    success: true,
+    receivedData: req.body,
+    message: "POST request processed successfully",
+  });
 });
 
-app.post("/submit", loggerMiddleware, async (req, res) => {
-  try {
-    let body;
-    try {
-      body = await req.json();
-    } catch {
-      body = "Could not parse JSON body";
-    }
+app.use("/__routes", express.routeInspector());
 
-    res.json({
-      success: true,
-      receivedData: body,
-      message: "POST request processed successfully",
-    });
-  } catch (err) {
-    console.error("Error processing POST:", err);
-    res.status(400).json({
-      success: false,
-      message: "Error processing request",
-    });
+app.use(
+  "/docs",
+  express.openapiDocs({ info: { title: "Middleware example" } })
+);
+
+app.use(
+  (
+    err: unknown,
+    _req: RequestContext,
+    res: ResponseContext,
+    next: NextFunction
+  ) => {
+    if (err instanceof HttpError && err.status === 422) {
+      res.status(422).json({ success: false, message: err.message });
+      return;
+    }
+    next(err);
   }
-});
+);
 
 const PORT = 3000;
 console.log(`Starting comprehensive middleware example server on port ${PORT}`);
@@ -194,10 +211,13 @@ console.log(
 );
 console.log("- GET /data-passing       - Data passing between middleware");
 console.log("- GET /error              - Error handling");
+console.log("- GET /next-error         - Error middleware via next(err)");
 console.log("- GET /early-response     - Early response");
 console.log("- GET /json               - JSON response");
 console.log("- GET /echo?message=hello - URL parameters");
 console.log("- POST /submit            - POST endpoint (send JSON body)");
+console.log("- GET /docs               - API documentation");
+console.log("- GET /__routes           - Registered routes (development only)");
 
 app.listen(PORT, () => {
   console.log(`Server running at http://localhost:${PORT}`);
@@ -0,0 +1,48 @@
+/**
+ * @file router.ts
+ * @description example demonstrating feature modules mounted as sub-routers.
+ * @author Sriram Sundar
+ */
+
+import express from "../core/express.ts";
+
+const app = express();
+
+const users = express.Router();
+
+users.get("/", (req, res) => {
+  res.json({ users: ["ada", "grace"], baseUrl: req.baseUrl });
+});
+
+users.get("/:id", (req, res) => {
+  res.json({
+    id: req.params.id,
+    baseUrl: req.baseUrl,
+    path: req.path,
+    originalUrl: req.originalUrl,
+  });
+});
+
+const posts = express.Router<{ id: string }>({ mergeParams: true });
+
+posts.get("/", (req, res) => {
+  res.json({ posts: [], userId: req.params.id });
+});
+
+users.use("/:id/posts", posts);
+
+const v1 = express.Router();
+v1.use("/users", users);
+
+app.use("/api/v1", v1);
+
+const PORT = 3000;
+console.log(`Starting router example server on port ${PORT}`);
+console.log("Try these endpoints:");
+console.log("- GET /api/v1/users          - List mounted at /api/v1/users");
+console.log("- GET /api/v1/users/42       - Params inside a sub-router");
+console.log("- GET /api/v1/users/42/posts - Nested router with mergeParams");
+
+app.listen(PORT, () => {
+  console.log(`Server running at http://localhost:${PORT}`);
+});
@@ -21,11 +21,18 @@ app.post("/post", async (_req, res) => {
 });
 
 app.get("/greet", async (req, res) => {
-  const url = new URL(req.url);
-  const name = url.searchParams.get("name") || "Guest";
+  const name = typeof req.query.name === "string" ? req.query.name : "Guest";
   await res.send(`Hello, ${name}!`);
 });
 
+app.get("/users/:id(\\d+)", async (req, res) => {
+  await res.json({ id: req.params.id });
+});
+
+app.get("/files/*", async (req, res) => {
+  await res.send(`Requested file: ${req.params[0]}`);
+});
+
 app.get("/json", async (_req, res) => {
   await res.json({
     message: "This is JSON data",
@@ -37,6 +44,17 @@ app.get("/created", async (_req, res) => {
   await res.status(201).send("Resource created successfully");
 });
 
+app.get("/old-home", async (_req, res) => {
+  await res.redirect(301, "/");
+});
+
+app.get("/download", async (_req, res) => {
+  await res
+    .attachment("hello.txt")
+    .cookie("downloaded", "yes", { httpOnly: true, maxAge: 60_000 })
+    .send("Hello from a file download");
+});
+
 console.log("Starting enhanced server on port 3000");
 app.listen(3000, () =>
   console.log("Enhanced server running on http://localhost:3000")
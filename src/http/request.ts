@@ -0,0 +1,221 @@
+/**
+ * @file request.ts
+ * @description Implements the request context helpers attached to each request.
+ * Adds parsed query, cookies, connection details and content negotiation.
+ * @author Sriram Sundar
+ */
+
+import { AppSettings, RequestContext } from "../core/app.ts";
+import { parseCookies } from "../utils/cookie.ts";
+import { lookupType, parseContentType, typeMatches } from "../utils/mime.ts";
+import {
+  preferredEncodings,
+  preferredLanguages,
+  preferredMediaTypes,
+} from "../utils/negotiate.ts";
+import { parseQuery } from "../utils/query.ts";
+
+/**
+ * Connection information recorded for requests received through Deno.serve
+ */
+const connectionInfo = new WeakMap<
+  Request | RequestContext,
+  Deno.ServeHandlerInfo<Deno.Addr>
+>();
+
+/**
+ * Shorthands accepted by req.is() that are not file extensions
+ */
+const TYPE_SHORTHANDS: Record<string, string> = {
+  urlencoded: "application/x-www-form-urlencoded",
+  multipart: "multipart/*",
+};
+
+/**
+ * Records the connection information for a request
+ * @param {Request} req - The incoming request
+ * @param {Deno.ServeHandlerInfo} info - Connection information from Deno.serve
+ */
+export function setConnectionInfo(
+  req: Request,
+  info: Deno.ServeHandlerInfo<Deno.Addr>
+): void {
+  connectionInfo.set(req, info);
+}
+
+/**
+ * Gets the remote address of the client that sent a request
+ * @param {RequestContext} req - The request context
+ * @returns {string} The remote host name, or "" if unknown
+ */
+function remoteAddress(req: RequestContext): string {
+  const addr = connectionInfo.get(req)?.remoteAddr;
+  return addr && "hostname" in addr ? addr.hostname : "";
+}
+
+/**
+ * Expands an extension or shorthand such as "json" into a media type
+ * @param {string} type - The type, extension or shorthand
+ * @returns {string} The media type pattern
+ */
+function normalizeType(type: string): string {
+  if (type.includes("/") || type.startsWith("+")) {
+    return type;
+  }
+  return TYPE_SHORTHANDS[type] ?? lookupType(type) ?? type;
+}
+
+/**
+ * Checks whether a request carries a body
+ * @param {RequestContext} req - The incoming request context
+ * @returns {boolean} True if the request has a body
+ */
+function hasBody(req: RequestContext): boolean {
+  return (
+    req.headers.has("Transfer-Encoding") ||
+    (req.headers.get("Content-Length") ?? "0") !== "0" ||
+    (req.body !== null && req.body !== undefined)
+  );
+}
+
+/**
+ * Methods added to every request context
+ */
+const requestMethods = {
+  get(this: RequestContext, field: string): string | null {
+    const name = field.toLowerCase();
+
+    if (name === "referer" || name === "referrer") {
+      return this.headers.get("Referer") ?? this.headers.get("Referrer");
+    }
+
+    return this.headers.get(field);
+  },
+
+  accepts(this: RequestContext, ...types: string[]): string[] | string | false {
+    const accepted = preferredMediaTypes(
+      this.headers.get("Accept"),
+      types,
+      normalizeType
+    );
+    return types.length === 0 ? accepted : accepted[0] ?? false;
+  },
+
+  acceptsLanguages(
+    this: RequestContext,
+    ...languages: string[]
+  ): string[] | string | false {
+    const accepted = preferredLanguages(
+      this.headers.get("Accept-Language"),
+      languages
+    );
+    return languages.length === 0 ? accepted : accepted[0] ?? false;
+  },
+
+  acceptsEncodings(
+    this: RequestContext,
+    ...encodings: string[]
+  ): string[] | string | false {
+    const accepted = preferredEncodings(
+      this.headers.get("Accept-Encoding"),
+      encodings
+    );
+    return encodings.length === 0 ? accepted : accepted[0] ?? false;
+  },
+
+  is(this: RequestContext, ...types: string[]): string | false | null {
+    if (!hasBody(this)) {
+      return null;
+    }
+
+    const contentType = parseContentType(this.headers.get("Content-Type"));
+
+    if (!contentType) {
+      return false;
+    }
+
+    if (types.length === 0) {
+      return contentType.type;
+    }
+
+    const match = types.find((type) =>
+      typeMatches(contentType.type, normalizeType(type))
+    );
+
+    if (match === undefined) {
+      return false;
+    }
+
+    return match.startsWith("+") || match.includes("*")
+      ? contentType.type
+      : match;
+  },
+};
+
+/**
+ * Gets the first value of a comma-separated header
+ * @param {RequestContext} req - The request context
+ * @param {string} name - The header name
+ * @returns {string | null} The trimmed first value, or null if absent
+ */
+function firstHeaderValue(req: RequestContext, name: string): string | null {
+  const value = req.headers.get(name)?.split(",")[0].trim();
+  return value || null;
+}
+
+/**
+ * Strips the port from a Host header value, keeping IPv6 brackets
+ * @param {string} host - The host value
+ * @returns {string} The host name
+ */
+function stripPort(host: string): string {
+  const end = host.startsWith("[") ? host.indexOf("]") + 1 : 0;
+  const colon = host.indexOf(":", end);
+  return colon === -1 ? host : host.slice(0, colon);
+}
+
+/**
+ * Attaches the parsed URL parts, connection details, cookies and helper
+ * methods to a request context. X-Forwarded-* headers are only honored when
+ * the "trust proxy" setting trusts the connecting address.
+ * @param {RequestContext} req - The request context to extend
+ * @param {AppSettings} [settings] - The settings of the app handling the request
+ */
+export function extendRequest(
+  req: RequestContext,
+  settings?: AppSettings
+): void {
+  const url = new URL(req.url);
+  const trust = settings?.["trust proxy fn"] ?? (() => false);
+  const forwarded = (req.headers.get("X-Forwarded-For") ?? "")
+    .split(",")
+    .map((addr) => addr.trim())
+    .filter(Boolean)
+    .reverse();
+  const addrs = [remoteAddress(req), ...forwarded];
+  const trustedSocket = trust(addrs[0], 0);
+
+  let hop = 0;
+  while (hop < addrs.length - 1 && trust(addrs[hop], hop)) {
+    hop++;
+  }
+
+  const protocol =
+    (trustedSocket && firstHeaderValue(req, "X-Forwarded-Proto")) ||
+    url.protocol.slice(0, -1);
+  const host =
+    (trustedSocket && firstHeaderValue(req, "X-Forwarded-Host")) ||
+    req.headers.get("Host");
+  const parseQueryString =
+    settings?.["query parser fn"] ?? ((query: string) => parseQuery(query));
+
+  req.query = parseQueryString(url.search.slice(1));
+  req.hostname = host ? stripPort(host) : url.hostname;
+  req.protocol = protocol.toLowerCase();
+  req.secure = req.protocol === "https";
+  req.ip = addrs[hop];
+  req.ips = addrs.slice(1, hop + 1).reverse();
+  req.cookies = parseCookies(req.headers.get("Cookie"));
+
+  Object.assign(req, requestMethods);
+}
@@ -0,0 +1,552 @@
+/**
+ * @file response.ts
+ * @description Implements the response context passed to handlers.
+ * The response context collects status and headers and builds the final Response.
+ * @author Sriram Sundar
+ */
+
+import {
+  BeforeSendHook,
+  FinishInfo,
+  FinishListener,
+  HeadersHook,
+  RequestContext,
+  ResponseBody,
+  ResponseContext,
+} from "../core/app.ts";
+import STATUS_TEXT from "../core/status.ts";
+import { CookieOptions, serializeCookie } from "../utils/cookie.ts";
+import { isFresh } from "../utils/etag.ts";
+import { escapeHtml } from "../utils/html.ts";
+import { contentType, lookupType } from "../utils/mime.ts";
+import { createEventStream, SseOptions } from "./sse.ts";
+
+/**
+ * Statuses whose responses must not carry a body
+ */
+const EMPTY_BODY_STATUSES = new Set([204, 304]);
+
+/**
+ * Encodes a URL for use in a header, leaving existing percent-escapes intact
+ * @param {string} url - The URL to encode
+ * @returns {string} The encoded URL
+ */
+function encodeUrl(url: string): string {
+  return encodeURI(url).replace(/%25([0-9A-Fa-f]{2})/g, "%$1");
+}
+
+/**
+ * Builds a Content-Disposition attachment value for a file name
+ * @param {string} filename - The file name (a path is reduced to its base name)
+ * @returns {string} The Content-Disposition header value
+ */
+function contentDisposition(filename: string): string {
+  const name = filename.split(/[\\/]/).pop() ?? filename;
+  const fallback = name
+    .replace(/[^\x20-\x7e]/g, "?")
+    .replace(/(["\\])/g, "\\$1");
+
+  if (fallback === name) {
+    return `attachment; filename="${name}"`;
+  }
+
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(
+    name
+  )}`;
+}
+
+/**
+ * Wraps a Response so its body reports when it has been fully read or
+ * cancelled, along with the number of bytes read
+ * @param {Response} response - The Response to track
+ * @param {Function} onDone - Called once with the bytes read and whether the body was cancelled
+ * @returns {Response} The tracked Response
+ */
+function trackBody(
+  response: Response,
+  onDone: (bytes: number, aborted: boolean) => void
+): Response {
+  if (!response.body) {
+    queueMicrotask(() => onDone(0, false));
+    return response;
+  }
+
+  const reader = response.body.getReader();
+  let bytes = 0;
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+          onDone(bytes, false);
+          return;
+        }
+        bytes += value.byteLength;
+        controller.enqueue(value);
+      } catch (err) {
+        controller.error(err);
+        onDone(bytes, true);
+      }
+    },
+    cancel(reason) {
+      onDone(bytes, true);
+      return reader.cancel(reason);
+    },
+  });
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+/**
+ * Creates a response context for handling responses
+ * @param {RequestContext} req - The request being answered
+ * @param {Function} onSend - Called with the Response once it has been created
+ * @param {Function} [onError] - Handles errors thrown by header hooks while sending, e.g. by responding through the error handler
+ * @returns {ResponseContext} The response context
+ */
+export function createResponseContext(
+  req: RequestContext,
+  onSend: (response: Response) => void,
+  onError?: (err: unknown) => Promise<void> | void
+): ResponseContext {
+  const encoder = new TextEncoder();
+  const headerHooks: HeadersHook[] = [];
+  const beforeSend: BeforeSendHook[] = [];
+  const finishListeners: FinishListener[] = [];
+  const start = performance.now();
+  let markSent: (response: Response) => void = () => {};
+  const sent = new Promise<Response>((resolve) => {
+    markSent = resolve;
+  });
+  let writer: ReadableStreamDefaultController<Uint8Array> | null = null;
+  let writable = false;
+  let streamed: Promise<Response> | null = null;
+
+  /**
+   * Sends the headers with a streaming body that res.write() feeds
+   * @param {ResponseContext} res - The response context
+   */
+  const startStream = (res: ResponseContext): void => {
+    if (streamed) {
+      return;
+    }
+
+    const body = new ReadableStream<Uint8Array>(
+      {
+        start(controller) {
+          writer = controller;
+        },
+        cancel() {
+          writable = false;
+        },
+      },
+      new ByteLengthQueuingStrategy({ highWaterMark: 64 * 1024 })
+    );
+
+    writable = true;
+    res.headers.delete("Content-Length");
+    streamed = res.send(body);
+    // Nothing awaits the stream's send until res.end(), so report failures here
+    streamed.catch((err) => {
+      writable = false;
+      (req.app?.logger ?? console).error("Error sending response:", err);
+    });
+  };
+
+  /**
+   * Runs the before-send hooks, tracks the body for finish listeners and
+   * hands the final Response back
+   * @param {ResponseContext} res - The response context
+   * @param {Response} response - The Response built by send()
+   * @returns {Promise<Response>} The Response after the hooks ran
+   */
+  const commit = async (
+    res: ResponseContext,
+    response: Response
+  ): Promise<Response> => {
+    res._response = response;
+
+    for (const hook of [...beforeSend].reverse()) {
+      res._response = (await hook(res._response)) ?? res._response;
+    }
+
+    if (finishListeners.length > 0) {
+      const { status, headers } = res._response;
+      const finish = (bytes: number, aborted: boolean) => {
+        const info: FinishInfo = {
+          status,
+          headers,
+          bytes,
+          duration: performance.now() - start,
+          aborted,
+        };
+        finishListeners.forEach((listener) => {
+          try {
+            listener(info);
+          } catch (err) {
+            (req.app?.logger ?? console).error(
+              "Error in finish listener:",
+              err
+            );
+          }
+        });
+      };
+
+      if (req.method === "HEAD" || status === 101) {
+        queueMicrotask(() => finish(0, false));
+      } else {
+        res._response = trackBody(res._response, finish);
+      }
+    }
+
+    onSend(res._response);
+    markSent(res._response);
+    return res._response;
+  };
+
+  /**
+   * Handles an error thrown while sending: the error handler responds if
+   * there is one, otherwise the error is logged and a 500 is sent
+   * @param {ResponseContext} res - The response context
+   * @param {unknown} err - The error
+   * @returns {Promise<Response>} The Response sent instead
+   */
+  const fail = async (
+    res: ResponseContext,
+    err: unknown
+  ): Promise<Response> => {
+    if (onError) {
+      await onError(err);
+      return res._response ?? sent;
+    }
+
+    (req.app?.logger ?? console).error("Error sending response:", err);
+    return commit(res, new Response(STATUS_TEXT[500], { status: 500 }));
+  };
+
+  return {
+    statusCode: 200,
+    locals: {},
+    get headersSent() {
+      return streamed !== null || this._response !== null;
+    },
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    async send(body?: ResponseBody) {
+      await Promise.resolve();
+
+      try {
+        for (const hook of headerHooks.splice(0)) {
+          await hook(this);
+        }
+      } catch (err) {
+        return fail(this, err);
+      }
+
+      if (body instanceof Response) {
+        return commit(this, body);
+      }
+
+      let payload: BodyInit | null = null;
+      let bytes: Uint8Array | undefined;
+      let length: number | undefined;
+      let defaultType: string | undefined;
+
+      if (typeof body === "string") {
+        const encoded = encoder.encode(body);
+        bytes = encoded;
+        payload = encoded;
+        length = encoded.byteLength;
+        defaultType = "html";
+      } else if (body instanceof Uint8Array || body instanceof ArrayBuffer) {
+        bytes = body instanceof Uint8Array ? body : new Uint8Array(body);
+        payload = body as Uint8Array<ArrayBuffer> | ArrayBuffer;
+        length = body.byteLength;
+        defaultType = "application/octet-stream";
+      } else if (body instanceof Blob) {
+        payload = body;
+        length = body.size;
+        defaultType = body.type || "application/octet-stream";
+      } else if (body instanceof ReadableStream) {
+        payload = body;
+        defaultType = "application/octet-stream";
+      } else if (body !== null && body !== undefined) {
+        return this.json(body);
+      } else {
+        length = 0;
+      }
+
+      if (defaultType && !this.headers.has("Content-Type")) {
+        this.type(defaultType);
+      }
+
+      let status = this.statusCode || 200;
+      const generateEtag = req.app?.settings["etag fn"];
+
+      if (
+        generateEtag &&
+        bytes &&
+        !EMPTY_BODY_STATUSES.has(status) &&
+        !this.headers.has("ETag")
+      ) {
+        this.headers.set("ETag", await generateEtag(bytes));
+      }
+
+      if (
+        (req.method === "GET" || req.method === "HEAD") &&
+        ((status >= 200 && status < 300) || status === 304) &&
+        isFresh(req.headers, this.headers)
+      ) {
+        status = 304;
+        this.statusCode = status;
+      }
+
+      if (EMPTY_BODY_STATUSES.has(status)) {
+        this.headers.delete("Content-Type");
+        this.headers.delete("Content-Length");
+        this.headers.delete("Transfer-Encoding");
+        payload = null;
+      } else if (length !== undefined) {
+        this.headers.set("Content-Length", String(length));
+      }
+
+      return commit(
+        this,
+        new Response(payload, { status, headers: this.headers })
+      );
+    },
+    json(body: unknown) {
+      if (!this.headers.has("Content-Type")) {
+        this.type("json");
+      }
+
+      const settings = req.app?.settings;
+      const json = JSON.stringify(
+        body,
+        settings?.["json replacer"],
+        settings?.["json spaces"]
+      );
+
+      return this.send(json ?? "");
+    },
+    sendStatus(code: number) {
+      this.status(code).type("txt");
+      return this.send(STATUS_TEXT[code] ?? String(code));
+    },
+    redirect(statusOrUrl: number | string, url?: string) {
+      const status = typeof statusOrUrl === "number" ? statusOrUrl : 302;
+      const target = typeof statusOrUrl === "number" ? url ?? "/" : statusOrUrl;
+
+      this.location(target);
+      const address = this.get("Location") ?? target;
+      const statusText = STATUS_TEXT[status] ?? String(status);
+
+      this.status(status);
+
+      if ((req.headers.get("Accept") ?? "").includes("text/html")) {
+        const href = escapeHtml(address);
+        this.type("html");
+        return this.send(
+          `<p>${statusText}. Redirecting to <a href="${href}">${href}</a></p>`
+        );
+      }
+
+      this.type("txt");
+      return this.send(`${statusText}. Redirecting to ${address}`);
+    },
+    set(
+      field: string | Record<string, string | string[]>,
+      value?: string | string[]
+    ) {
+      if (typeof field !== "string") {
+        Object.entries(field).forEach(([name, val]) => this.set(name, val));
+        return this;
+      }
+
+      if (Array.isArray(value)) {
+        this.headers.delete(field);
+        value.forEach((val) => this.headers.append(field, val));
+        return this;
+      }
+
+      const headerValue =
+        field.toLowerCase() === "content-type"
+          ? contentType(value ?? "")
+          : value ?? "";
+
+      this.headers.set(field, headerValue);
+      return this;
+    },
+    get(field: string) {
+      return this.headers.get(field);
+    },
+    append(field: string, value: string | string[]) {
+      const values = Array.isArray(value) ? value : [value];
+      values.forEach((val) => this.headers.append(field, val));
+      return this;
+    },
+    type(type: string) {
+      this.headers.set("Content-Type", contentType(type));
+      return this;
+    },
+    location(url: string) {
+      const target =
+        url === "back"
+          ? req.headers.get("Referrer") ?? req.headers.get("Referer") ?? "/"
+          : url;
+
+      this.headers.set("Location", encodeUrl(target));
+      return this;
+    },
+    vary(field: string | string[]) {
+      const fields = Array.isArray(field) ? field : field.split(",");
+      const current = this.headers.get("Vary");
+
+      if (current?.trim() === "*") {
+        return this;
+      }
+
+      if (fields.some((name) => name.trim() === "*")) {
+        this.headers.set("Vary", "*");
+        return this;
+      }
+
+      const values = current
+        ? current.split(",").map((name) => name.trim())
+        : [];
+      const lower = values.map((name) => name.toLowerCase());
+
+      fields.forEach((name) => {
+        const trimmed = name.trim();
+        if (trimmed && !lower.includes(trimmed.toLowerCase())) {
+          values.push(trimmed);
+          lower.push(trimmed.toLowerCase());
+        }
+      });
+
+      if (values.length > 0) {
+        this.headers.set("Vary", values.join(", "));
+      }
+      return this;
+    },
+    links(links: Record<string, string>) {
+      const current = this.headers.get("Link");
+      const entries = Object.entries(links).map(
+        ([rel, url]) => `<${url}>; rel="${rel}"`
+      );
+
+      this.headers.set(
+        "Link",
+        [...(current ? [current] : []), ...entries].join(", ")
+      );
+      return this;
+    },
+    attachment(filename?: string) {
+      if (!filename) {
+        this.headers.set("Content-Disposition", "attachment");
+        return this;
+      }
+
+      const mediaType = lookupType(filename);
+      if (mediaType) {
+        this.type(mediaType);
+      }
+
+      this.headers.set("Content-Disposition", contentDisposition(filename));
+      return this;
+    },
+    cookie(name: string, value: string | object, options: CookieOptions = {}) {
+      const serialized =
+        typeof value === "string" ? value : "j:" + JSON.stringify(value);
+      const attributes = { ...options };
+
+      if (attributes.maxAge !== undefined) {
+        attributes.expires = new Date(Date.now() + attributes.maxAge);
+      }
+
+      this.headers.append(
+        "Set-Cookie",
+        serializeCookie(name, serialized, attributes)
+      );
+      return this;
+    },
+    clearCookie(name: string, options: CookieOptions = {}) {
+      const { maxAge: _maxAge, ...attributes } = options;
+
+      this.headers.append(
+        "Set-Cookie",
+        serializeCookie(name, "", { ...attributes, expires: new Date(0) })
+      );
+      return this;
+    },
+    onHeaders(hook: HeadersHook) {
+      headerHooks.push(hook);
+      return this;
+    },
+    onBeforeSend(hook: BeforeSendHook) {
+      beforeSend.push(hook);
+      return this;
+    },
+    onFinish(listener: FinishListener) {
+      finishListeners.push(listener);
+      return this;
+    },
+    write(chunk: string | Uint8Array) {
+      if (
+        typeof chunk === "string" &&
+        !this.headersSent &&
+        !this.headers.has("Content-Type")
+      ) {
+        this.type("html");
+      }
+
+      startStream(this);
+
+      if (!writable || !writer) {
+        return false;
+      }
+
+      writer.enqueue(typeof chunk === "string" ? encoder.encode(chunk) : chunk);
+      return (writer.desiredSize ?? 0) > 0;
+    },
+    end(chunk?: string | Uint8Array) {
+      if (!streamed) {
+        return this.send(chunk ?? null);
+      }
+
+      if (chunk !== undefined) {
+        this.write(chunk);
+      }
+      if (writable && writer) {
+        writable = false;
+        writer.close();
+      }
+      return streamed;
+    },
+    flushHeaders() {
+      startStream(this);
+      return this;
+    },
+    sse(options?: SseOptions) {
+      return createEventStream(req, this, options);
+    },
+    async render(view: string, locals: Record<string, unknown> = {}) {
+      const html = await req.app.render(view, { ...this.locals, ...locals });
+
+      if (!this.headers.has("Content-Type")) {
+        this.type("html");
+      }
+      return this.send(html);
+    },
+    headers: new Headers(),
+    _response: null,
+  };
+}
@@ -0,0 +1,197 @@
+/**
+ * @file server.ts
+ * @description Starts the HTTP server for an application and returns a handle
+ * for reading the bound address and shutting the server down gracefully.
+ * @author Sriram Sundar
+ */
+
+import STATUS_TEXT from "../core/status.ts";
+import { Logger } from "../utils/logger.ts";
+
+/**
+ * Options for starting the HTTP server
+ */
+export interface ListenOptions {
+  /** The port to listen on; 0 picks a free port (defaults to 8000) */
+  port?: number;
+  /** The interface to bind to (defaults to "0.0.0.0") */
+  hostname?: string;
+  /** PEM-encoded TLS certificate chain; serves HTTPS together with key */
+  cert?: string;
+  /** PEM-encoded TLS private key */
+  key?: string;
+  /** Unix socket path to listen on instead of a TCP port */
+  path?: string;
+  /** Shuts the server down gracefully when aborted */
+  signal?: AbortSignal;
+  /** Milliseconds to wait for in-flight requests when closing before aborting them (defaults to 10000) */
+  shutdownTimeout?: number;
+  /** Signals that trigger a graceful shutdown, or false to not listen for any */
+  shutdownSignals?: Deno.Signal[] | false;
+  /** Receives shutdown warnings (defaults to the app's logger) */
+  logger?: Logger;
+}
+
+/**
+ * A handle to a running server
+ */
+export interface ServerHandle {
+  /** The underlying Deno server */
+  server: Deno.HttpServer<Deno.Addr>;
+
+  /** Resolves once the server has stopped */
+  finished: Promise<void>;
+
+  /**
+   * Gets the address the server is bound to, including the actual port when
+   * listening on port 0
+   * @returns {Deno.Addr} The bound address
+   */
+  address: () => Deno.Addr;
+
+  /**
+   * Answers new requests with 503 while in-flight requests finish, then
+   * closes the server. Connections still open after the shutdown timeout
+   * are aborted.
+   * @returns {Promise<void>} Resolves once the server has closed
+   */
+  close: () => Promise<void>;
+}
+
+/**
+ * Signals that shut the server down by default. Windows only supports SIGINT.
+ */
+const DEFAULT_SHUTDOWN_SIGNALS: Deno.Signal[] =
+  Deno.build.os === "windows" ? ["SIGINT"] : ["SIGINT", "SIGTERM"];
+
+/**
+ * Handles a request received by the server
+ */
+type ServeHandler = (
+  req: Request,
+  info: Deno.ServeHandlerInfo<Deno.Addr>
+) => Response | Promise<Response>;
+
+/**
+ * Starts the HTTP server
+ * @param {ServeHandler} handler - Answers each incoming request
+ * @param {ListenOptions} options - The listen options
+ * @param {Function} [onListen] - Called with the bound address once the server is listening
+ * @returns {ServerHandle} A handle to the running server
+ */
+export function startServer(
+  handler: ServeHandler,
+  options: ListenOptions,
+  onListen?: (addr: Deno.Addr) => void
+): ServerHandle {
+  const {
+    port,
+    hostname,
+    cert,
+    key,
+    path,
+    signal,
+    shutdownTimeout = 10_000,
+    shutdownSignals = DEFAULT_SHUTDOWN_SIGNALS,
+    logger = console,
+  } = options;
+
+  if (Boolean(cert) !== Boolean(key)) {
+    throw new TypeError("listen() requires both cert and key to serve HTTPS");
+  }
+
+  const controller = new AbortController();
+  const inFlight = new Set<Promise<void>>();
+  let closing: Promise<void> | null = null;
+
+  const serve: ServeHandler = (req, info) => {
+    const completed = info.completed.catch(() => {});
+    inFlight.add(completed);
+    completed.then(() => inFlight.delete(completed));
+
+    if (closing) {
+      return new Response(STATUS_TEXT[503], {
+        status: 503,
+        headers: { Connection: "close" },
+      });
+    }
+
+    return handler(req, info);
+  };
+
+  const listenCallback = (addr: Deno.Addr) => onListen?.(addr);
+  const serveOptions = { signal: controller.signal, onListen: listenCallback };
+  const server: Deno.HttpServer<Deno.Addr> = path
+    ? Deno.serve({ path, ...serveOptions }, serve)
+    : Deno.serve(
+        cert && key
+          ? { port, hostname, cert, key, ...serveOptions }
+          : { port, hostname, ...serveOptions },
+        serve
+      );
+
+  const signals = shutdownSignals === false ? [] : shutdownSignals;
+
+  const onSignal = () => {
+    handle.close();
+  };
+
+  const handle: ServerHandle = {
+    server,
+    finished: server.finished,
+
+    address() {
+      return server.addr;
+    },
+
+    close() {
+      if (closing) {
+        return closing;
+      }
+
+      signals.forEach((name) => Deno.removeSignalListener(name, onSignal));
+      signal?.removeEventListener("abort", onSignal);
+
+      const drain = async () => {
+        while (inFlight.size > 0) {
+          await Promise.all(inFlight);
+        }
+      };
+
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const timeout = new Promise<boolean>((resolve) => {
+        timer = setTimeout(() => {
+          logger.warn(
+            `Server did not drain within ${shutdownTimeout}ms, aborting open connections`
+          );
+          resolve(true);
+        }, shutdownTimeout);
+      });
+
+      closing = Promise.race([drain().then(() => false), timeout]).then(
+        (timedOut) => {
+          clearTimeout(timer);
+
+          if (!timedOut) {
+            return server.shutdown();
+          }
+
+          // Aborting the signal closes the listener and any connections left
+          controller.abort();
+          return server.finished;
+        }
+      );
+      return closing;
+    },
+  };
+
+  signals.forEach((name) => Deno.addSignalListener(name, onSignal));
+
+  if (signal?.aborted) {
+    handle.close();
+  } else {
+    signal?.addEventListener("abort", onSignal, { once: true });
+  }
+
+  return handle;
+}
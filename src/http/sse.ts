@@ -0,0 +1,199 @@
+/**
+ * @file sse.ts
+ * @description Server-Sent Events streams created by res.sse(). Events are
+ * written to a streaming response body, with heartbeat comments keeping the
+ * connection open until the client disconnects or the stream is closed.
+ * @author Sriram Sundar
+ */
+
+import { RequestContext, ResponseContext } from "../core/app.ts";
+
+/**
+ * Options for opening an event stream
+ */
+export interface SseOptions {
+  /** Milliseconds between heartbeat comments, or false to disable (defaults to 15000) */
+  heartbeat?: number | false;
+  /** Reconnection delay in milliseconds sent to the client when the stream opens */
+  retry?: number;
+}
+
+/**
+ * Fields sent along with an event's data
+ */
+export interface SseEventOptions {
+  /** The event name, dispatched to listeners for that name on the client */
+  event?: string;
+  /** The event id, sent back by the client as Last-Event-ID when reconnecting */
+  id?: string | number;
+  /** Reconnection delay in milliseconds */
+  retry?: number;
+}
+
+/**
+ * An open Server-Sent Events stream
+ */
+export interface EventStream {
+  /** The Last-Event-ID sent by a reconnecting client, or null */
+  lastEventId: string | null;
+
+  /** Aborted once the client disconnects or the stream is closed */
+  signal: AbortSignal;
+
+  /** Whether the stream has been closed */
+  readonly closed: boolean;
+
+  /**
+   * Sends an event. Strings are sent as-is; other values are sent as JSON.
+   * @param {unknown} data - The event data
+   * @param {SseEventOptions} [options] - The event name, id and retry delay
+   * @returns {boolean} False if the stream is closed
+   */
+  send: (data: unknown, options?: SseEventOptions) => boolean;
+
+  /**
+   * Sends a comment line, which clients ignore.
+   * @param {string} text - The comment text
+   * @returns {boolean} False if the stream is closed
+   */
+  comment: (text: string) => boolean;
+
+  /**
+   * Ends the stream and stops the heartbeat.
+   */
+  close: () => void;
+}
+
+/**
+ * Removes line breaks, which would end a field early
+ * @param {string | number} value - The field value
+ * @returns {string} The value on a single line
+ */
+function singleLine(value: string | number): string {
+  return String(value).replace(/[\r\n]/g, "");
+}
+
+/**
+ * Formats an event in the text/event-stream format
+ * @param {unknown} data - The event data
+ * @param {SseEventOptions} options - The event fields
+ * @returns {string} The formatted event, ending with a blank line
+ */
+function formatEvent(data: unknown, options: SseEventOptions): string {
+  const { event, id, retry } = options;
+  const text = typeof data === "string" ? data : JSON.stringify(data) ?? "";
+  let output = "";
+
+  if (event) {
+    output += `event: ${singleLine(event)}\n`;
+  }
+  if (id !== undefined) {
+    output += `id: ${singleLine(id).replace(/\0/g, "")}\n`;
+  }
+  if (retry !== undefined) {
+    output += `retry: ${Math.floor(retry)}\n`;
+  }
+
+  for (const line of text.split(/\r\n|\r|\n/)) {
+    output += `data: ${line}\n`;
+  }
+
+  return `${output}\n`;
+}
+
+/**
+ * Sends the response headers and opens an event stream
+ * @param {RequestContext} req - The request being answered
+ * @param {ResponseContext} res - The response context
+ * @param {SseOptions} [options={}] - The stream options
+ * @returns {EventStream} The open event stream
+ */
+export function createEventStream(
+  req: RequestContext,
+  res: ResponseContext,
+  options: SseOptions = {}
+): EventStream {
+  const { heartbeat = 15_000, retry } = options;
+  const encoder = new TextEncoder();
+  const controller = new AbortController();
+  let writer: ReadableStreamDefaultController<Uint8Array> | undefined;
+  let timer: ReturnType<typeof setInterval> | undefined;
+
+  const cleanup = () => {
+    if (controller.signal.aborted) {
+      return;
+    }
+    clearInterval(timer);
+    req.signal.removeEventListener("abort", cleanup);
+    controller.abort();
+  };
+
+  const push = (text: string): boolean => {
+    if (controller.signal.aborted || !writer) {
+      return false;
+    }
+    writer.enqueue(encoder.encode(text));
+    return true;
+  };
+
+  const body = new ReadableStream<Uint8Array>({
+    start(streamController) {
+      writer = streamController;
+    },
+    cancel: cleanup,
+  });
+
+  res.set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    "X-Accel-Buffering": "no",
+  });
+  res.headers.delete("Content-Length");
+  res.send(body).catch((err) => {
+    (req.app?.logger ?? console).error("Error sending event stream:", err);
+    cleanup();
+  });
+
+  if (retry !== undefined) {
+    push(`retry: ${Math.floor(retry)}\n\n`);
+  }
+
+  if (heartbeat) {
+    timer = setInterval(() => push(": heartbeat\n\n"), heartbeat);
+  }
+
+  if (req.signal.aborted) {
+    cleanup();
+  } else {
+    req.signal.addEventListener("abort", cleanup, { once: true });
+  }
+
+  return {
+    lastEventId: req.headers.get("Last-Event-ID"),
+    signal: controller.signal,
+
+    get closed() {
+      return controller.signal.aborted;
+    },
+
+    send(data: unknown, eventOptions: SseEventOptions = {}) {
+      return push(formatEvent(data, eventOptions));
+    },
+
+    comment(text: string) {
+      return push(
+        text
+          .split(/\r\n|\r|\n/)
+          .map((line) => `: ${line}\n`)
+          .join("") + "\n"
+      );
+    },
+
+    close() {
+      if (!controller.signal.aborted) {
+        writer?.close();
+        cleanup();
+      }
+    },
+  };
+}
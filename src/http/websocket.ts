@@ -0,0 +1,409 @@
+/**
+ * @file websocket.ts
+ * @description WebSocket routes registered with app.ws() and router.ws().
+ * Upgrade requests pass through the middleware stack like any other request
+ * and are upgraded with Deno.upgradeWebSocket once their route matches.
+ * @author Sriram Sundar
+ */
+
+import { RequestContext, RouteHandler, RouteParams } from "../core/app.ts";
+import { PathParams } from "../router/path.ts";
+
+/**
+ * Data that can be sent over a WebSocket
+ */
+export type WebSocketData = string | ArrayBufferLike | Blob | ArrayBufferView;
+
+/**
+ * Options for upgrading WebSocket connections
+ */
+export interface WebSocketOptions {
+  /** The subprotocol to accept, if the client offered it */
+  protocol?: string;
+  /**
+   * Seconds without a pong reply to a ping before the connection is closed;
+   * pings are sent automatically (defaults to 30, 0 disables keepalive)
+   */
+  idleTimeout?: number;
+}
+
+/**
+ * Options for broadcasting to connected sockets
+ */
+export interface BroadcastOptions {
+  /** Only send to sockets that joined this room */
+  room?: string;
+  /** A socket to skip, usually the sender */
+  except?: WebSocketClient;
+}
+
+/**
+ * The connected sockets of an application, grouped into rooms
+ */
+export interface WebSocketHub {
+  /** All open sockets */
+  clients: Set<WebSocketClient>;
+
+  /** Sockets by room name */
+  rooms: Map<string, Set<WebSocketClient>>;
+
+  /**
+   * Sends data to every open socket, or to a room's sockets.
+   * @param {WebSocketData} data - The data to send
+   * @param {BroadcastOptions} [options] - The room and socket to skip
+   * @returns {number} The number of sockets the data was sent to
+   */
+  broadcast: (data: WebSocketData, options?: BroadcastOptions) => number;
+
+  /**
+   * Sends a value as JSON to every open socket, or to a room's sockets.
+   * @param {unknown} value - The value to serialize
+   * @param {BroadcastOptions} [options] - The room and socket to skip
+   * @returns {number} The number of sockets the value was sent to
+   */
+  broadcastJson: (value: unknown, options?: BroadcastOptions) => number;
+}
+
+/**
+ * A WebSocket connection handed to ws route handlers
+ */
+export interface WebSocketClient {
+  /** A unique id for the connection */
+  id: string;
+
+  /** The underlying WebSocket */
+  raw: WebSocket;
+
+  /** The rooms this socket has joined */
+  rooms: Set<string>;
+
+  /** Whether the connection is open */
+  readonly isOpen: boolean;
+
+  /**
+   * Sends data if the connection is open.
+   * @param {WebSocketData} data - The data to send
+   * @returns {boolean} False if the connection is not open
+   */
+  send: (data: WebSocketData) => boolean;
+
+  /**
+   * Sends a value as JSON if the connection is open.
+   * @param {unknown} value - The value to serialize
+   * @returns {boolean} False if the connection is not open
+   */
+  json: (value: unknown) => boolean;
+
+  /**
+   * Listens for connection events. "json" receives text messages parsed as
+   * JSON; messages that are not valid JSON are skipped. "open" listeners
+   * added once the connection is open are called right away.
+   * @param {string} event - The event name
+   * @param {Function} listener - Called when the event occurs
+   * @returns {WebSocketClient} This socket for chaining
+   */
+  on: {
+    (event: "open", listener: () => void): WebSocketClient;
+    (
+      event: "message",
+      listener: (data: string | ArrayBuffer) => void
+    ): WebSocketClient;
+    (event: "json", listener: (value: unknown) => void): WebSocketClient;
+    (
+      event: "close",
+      listener: (code: number, reason: string) => void
+    ): WebSocketClient;
+    (event: "error", listener: (event: Event) => void): WebSocketClient;
+  };
+
+  /**
+   * Joins a room.
+   * @param {string} room - The room name
+   * @returns {WebSocketClient} This socket for chaining
+   */
+  join: (room: string) => WebSocketClient;
+
+  /**
+   * Leaves a room.
+   * @param {string} room - The room name
+   * @returns {WebSocketClient} This socket for chaining
+   */
+  leave: (room: string) => WebSocketClient;
+
+  /**
+   * Sends data to every other open socket, or to the other sockets in a room.
+   * @param {WebSocketData} data - The data to send
+   * @param {string} [room] - The room to send to
+   * @returns {number} The number of sockets the data was sent to
+   */
+  broadcast: (data: WebSocketData, room?: string) => number;
+
+  /**
+   * Sends a value as JSON to every other open socket, or to the other sockets
+   * in a room.
+   * @param {unknown} value - The value to serialize
+   * @param {string} [room] - The room to send to
+   * @returns {number} The number of sockets the value was sent to
+   */
+  broadcastJson: (value: unknown, room?: string) => number;
+
+  /**
+   * Closes the connection.
+   * @param {number} [code] - The close code
+   * @param {string} [reason] - The close reason
+   */
+  close: (code?: number, reason?: string) => void;
+}
+
+/**
+ * Handles an upgraded WebSocket connection, once it is open
+ */
+export type WebSocketHandler<P extends RouteParams = RouteParams> = (
+  socket: WebSocketClient,
+  req: RequestContext<P>
+) => Promise<void> | void;
+
+/**
+ * Handlers for a WebSocket route: route middleware followed by the socket handler
+ */
+export type WebSocketHandlers<P extends RouteParams> = [
+  ...RouteHandler<P>[],
+  WebSocketHandler<P>
+];
+
+/**
+ * Registers a WebSocket route, optionally with upgrade options. `req.params`
+ * is inferred from the path like HTTP routes.
+ */
+export type WebSocketMethod<
+  T,
+  Inherited extends RouteParams = Record<never, never>
+> = {
+  <Path extends string>(
+    path: Path,
+    ...handlers: WebSocketHandlers<PathParams<Path> & Inherited>
+  ): T;
+  <Path extends string>(
+    path: Path,
+    options: WebSocketOptions,
+    ...handlers: WebSocketHandlers<PathParams<Path> & Inherited>
+  ): T;
+};
+
+/**
+ * Creates an empty hub for an application's sockets
+ * @returns {WebSocketHub} The hub
+ */
+export function createWebSocketHub(): WebSocketHub {
+  const hub: WebSocketHub = {
+    clients: new Set(),
+    rooms: new Map(),
+
+    broadcast(data: WebSocketData, options: BroadcastOptions = {}) {
+      const targets = options.room
+        ? hub.rooms.get(options.room) ?? new Set<WebSocketClient>()
+        : hub.clients;
+      let sent = 0;
+
+      for (const client of targets) {
+        if (client !== options.except && client.send(data)) {
+          sent++;
+        }
+      }
+      return sent;
+    },
+
+    broadcastJson(value: unknown, options?: BroadcastOptions) {
+      return hub.broadcast(JSON.stringify(value), options);
+    },
+  };
+
+  return hub;
+}
+
+/**
+ * Wraps an upgraded WebSocket and registers it with the hub until it closes
+ * @param {WebSocket} raw - The upgraded socket
+ * @param {WebSocketHub} hub - The hub to register with
+ * @returns {WebSocketClient} The socket wrapper
+ */
+function createClient(raw: WebSocket, hub: WebSocketHub): WebSocketClient {
+  const client: WebSocketClient = {
+    id: crypto.randomUUID(),
+    raw,
+    rooms: new Set(),
+
+    get isOpen() {
+      return raw.readyState === WebSocket.OPEN;
+    },
+
+    send(data: WebSocketData) {
+      if (raw.readyState !== WebSocket.OPEN) {
+        return false;
+      }
+      raw.send(data);
+      return true;
+    },
+
+    json(value: unknown) {
+      return client.send(JSON.stringify(value));
+    },
+
+    on(event: string, listener: (...args: never[]) => void) {
+      const callback = listener as (...args: unknown[]) => void;
+
+      switch (event) {
+        case "open":
+          if (raw.readyState === WebSocket.OPEN) {
+            queueMicrotask(() => callback());
+          } else {
+            raw.addEventListener("open", () => callback());
+          }
+          break;
+        case "message":
+          raw.addEventListener("message", (e) => callback(e.data));
+          break;
+        case "json":
+          raw.addEventListener("message", (e) => {
+            if (typeof e.data !== "string") {
+              return;
+            }
+            let value: unknown;
+            try {
+              value = JSON.parse(e.data);
+            } catch {
+              return;
+            }
+            callback(value);
+          });
+          break;
+        case "close":
+          raw.addEventListener("close", (e) => callback(e.code, e.reason));
+          break;
+        default:
+          raw.addEventListener(event, (e) => callback(e));
+      }
+      return client;
+    },
+
+    join(room: string) {
+      const members = hub.rooms.get(room) ?? new Set<WebSocketClient>();
+      members.add(client);
+      hub.rooms.set(room, members);
+      client.rooms.add(room);
+      return client;
+    },
+
+    leave(room: string) {
+      const members = hub.rooms.get(room);
+      members?.delete(client);
+      if (members?.size === 0) {
+        hub.rooms.delete(room);
+      }
+      client.rooms.delete(room);
+      return client;
+    },
+
+    broadcast(data: WebSocketData, room?: string) {
+      return hub.broadcast(data, { room, except: client });
+    },
+
+    broadcastJson(value: unknown, room?: string) {
+      return hub.broadcastJson(value, { room, except: client });
+    },
+
+    close(code?: number, reason?: string) {
+      raw.close(code, reason);
+    },
+  };
+
+  hub.clients.add(client);
+  raw.addEventListener("close", () => {
+    hub.clients.delete(client);
+    client.rooms.forEach((room) => client.leave(room));
+  });
+
+  return client;
+}
+
+/**
+ * Checks whether a request asks to upgrade to a WebSocket
+ * @param {RequestContext} req - The request
+ * @returns {boolean} True for WebSocket upgrade requests
+ */
+export function isUpgradeRequest(req: RequestContext): boolean {
+  return (req.headers.get("Upgrade") ?? "").toLowerCase() === "websocket";
+}
+
+/**
+ * Creates the route handler that upgrades matched requests and runs the
+ * socket handler once the connection opens, so data it sends is delivered.
+ * Other requests are passed on, so routes registered for the same path with
+ * app.get() still answer them.
+ * @param {WebSocketHandler} handler - The socket handler
+ * @param {WebSocketOptions} [options={}] - The upgrade options
+ * @returns {RouteHandler} The route handler
+ */
+export function createUpgradeHandler<P extends RouteParams>(
+  handler: WebSocketHandler<P>,
+  options: WebSocketOptions = {}
+): RouteHandler<P> {
+  const { protocol, idleTimeout = 30 } = options;
+
+  return async function upgradeWebSocket(req, res, next) {
+    if (!isUpgradeRequest(req)) {
+      next?.();
+      return;
+    }
+
+    const offered = (req.headers.get("Sec-WebSocket-Protocol") ?? "")
+      .split(",")
+      .map((name) => name.trim());
+    // The context is the incoming Request, whose body is never parsed here
+    const { socket, response } = Deno.upgradeWebSocket(req as Request, {
+      protocol: protocol && offered.includes(protocol) ? protocol : undefined,
+      idleTimeout,
+    });
+    const client = createClient(socket, req.app.sockets);
+    const opened = new Promise<boolean>((resolve) => {
+      socket.addEventListener("open", () => resolve(true), { once: true });
+      socket.addEventListener("close", () => resolve(false), { once: true });
+    });
+
+    await res.send(response);
+
+    if (!(await opened)) {
+      return;
+    }
+
+    try {
+      await handler(client, req);
+    } catch (err) {
+      client.close(1011, "Internal Error");
+      next?.(err);
+    }
+  };
+}
+
+/**
+ * Splits ws() arguments into upgrade options, route middleware and the socket handler
+ * @param {Array} args - The arguments after the path
+ * @returns {RouteHandler[]} The route handlers, ending with the upgrade handler
+ * @throws {TypeError} If no socket handler is given
+ */
+export function createWebSocketRoute<P extends RouteParams>(
+  args: Array<WebSocketOptions | RouteHandler<P> | WebSocketHandler<P>>
+): RouteHandler<P>[] {
+  const options =
+    typeof args[0] === "object" ? (args.shift() as WebSocketOptions) : {};
+  const handler = args.pop() as WebSocketHandler<P> | undefined;
+
+  if (typeof handler !== "function") {
+    throw new TypeError("ws() requires a WebSocket handler");
+  }
+
+  return [
+    ...(args as RouteHandler<P>[]),
+    createUpgradeHandler(handler, options),
+  ];
+}
@@ -0,0 +1,427 @@
+/**
+ * @file body.ts
+ * @description Request body parsing middleware for the framework.
+ * Each factory returns a middleware that reads the request body, enforces a
+ * size limit and populates req.body when the Content-Type matches.
+ * @author Sriram Sundar
+ */
+
+import { RequestContext, ResponseContext, RouteHandler } from "../core/app.ts";
+import { HttpError } from "../core/errors.ts";
+import { NextFunction } from "../router/router.ts";
+import { parseContentType, typeMatches } from "../utils/mime.ts";
+import { ParameterLimitError, parseQuery } from "../utils/query.ts";
+
+/**
+ * Options shared by all body parsers
+ */
+export interface BodyParserOptions {
+  /** Maximum body size in bytes, or a string such as "100kb" or "1mb" */
+  limit?: number | string;
+  /** Media types to parse, or a predicate deciding whether to parse */
+  type?: string | string[] | ((req: RequestContext) => boolean);
+}
+
+/**
+ * Options for the JSON body parser
+ */
+export interface JsonOptions extends BodyParserOptions {
+  /** Only accept objects and arrays at the top level */
+  strict?: boolean;
+  /** Reviver passed to JSON.parse */
+  reviver?: (key: string, value: unknown) => unknown;
+}
+
+/**
+ * Options for the URL-encoded body parser
+ */
+export interface UrlencodedOptions extends BodyParserOptions {
+  /** Expand bracket notation into nested objects and arrays */
+  extended?: boolean;
+  /** Maximum number of parameters */
+  parameterLimit?: number;
+}
+
+/**
+ * Options for the text body parser
+ */
+export interface TextOptions extends BodyParserOptions {
+  /** Charset used when the Content-Type does not specify one */
+  defaultCharset?: string;
+}
+
+/**
+ * Options for the multipart body parser
+ */
+export interface MultipartOptions extends BodyParserOptions {
+  /** Maximum size of a single file part in bytes, or a string such as "5mb" */
+  fileSize?: number | string;
+  /** Maximum number of file parts */
+  files?: number;
+}
+
+/**
+ * A parsed multipart form: text fields as strings, file parts as File objects
+ */
+export type MultipartBody = Record<
+  string,
+  string | File | Array<string | File>
+>;
+
+/**
+ * Reads and decodes a request body into req.body
+ */
+type BodyParse = (
+  bytes: Uint8Array<ArrayBuffer>,
+  req: RequestContext,
+  parameters: Record<string, string>
+) => unknown | Promise<unknown>;
+
+/**
+ * Requests whose body has already been parsed
+ */
+const parsedRequests = new WeakSet<RequestContext>();
+
+/**
+ * Multipliers for byte size units
+ */
+const BYTE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+};
+
+/**
+ * Converts a size limit into a number of bytes
+ * @param {number | string} limit - The size in bytes, or a string such as "100kb"
+ * @returns {number} The size in bytes
+ */
+function parseBytes(limit: number | string): number {
+  if (typeof limit === "number") {
+    return limit;
+  }
+
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?\s*$/i.exec(limit);
+  if (!match) {
+    throw new TypeError(`Invalid size limit: ${limit}`);
+  }
+
+  const unit = (match[2] ?? "b").toLowerCase();
+  return Math.floor(parseFloat(match[1]) * BYTE_UNITS[unit]);
+}
+
+/**
+ * Decodes bytes using the given charset
+ * @param {Uint8Array} bytes - The raw bytes
+ * @param {string} charset - The charset label
+ * @returns {string} The decoded text
+ * @throws {HttpError} 415 if the charset is not supported
+ */
+function decodeText(bytes: Uint8Array, charset: string): string {
+  let decoder: TextDecoder;
+
+  try {
+    decoder = new TextDecoder(charset);
+  } catch {
+    throw new HttpError(415, `Unsupported charset "${charset.toUpperCase()}"`);
+  }
+
+  return decoder.decode(bytes);
+}
+
+/**
+ * Returns the body stream, decompressing it according to Content-Encoding
+ * @param {RequestContext} req - The incoming request context
+ * @returns {ReadableStream<Uint8Array>} The decoded body stream
+ * @throws {HttpError} 415 if the content encoding is not supported
+ */
+function getBodyStream(req: RequestContext): ReadableStream<Uint8Array> {
+  const stream = req.body as ReadableStream<Uint8Array>;
+  const encoding = (req.headers.get("Content-Encoding") ?? "identity")
+    .trim()
+    .toLowerCase();
+
+  switch (encoding) {
+    case "identity":
+      return stream;
+    case "gzip":
+    case "deflate":
+      return stream.pipeThrough(
+        new DecompressionStream(encoding) as TransformStream<
+          Uint8Array,
+          Uint8Array
+        >
+      );
+    default:
+      throw new HttpError(415, `Unsupported content encoding "${encoding}"`);
+  }
+}
+
+/**
+ * Reads the request body into memory, enforcing the size limit
+ * @param {RequestContext} req - The incoming request context
+ * @param {number} limit - The maximum number of bytes to read
+ * @returns {Promise<Uint8Array<ArrayBuffer>>} The body bytes
+ * @throws {HttpError} 413 if the body exceeds the limit, 400 if it cannot be read
+ */
+async function readBody(
+  req: RequestContext,
+  limit: number
+): Promise<Uint8Array<ArrayBuffer>> {
+  const length = req.headers.get("Content-Length");
+
+  if (length !== null && Number(length) > limit) {
+    throw new HttpError(413, "Request entity too large");
+  }
+
+  const reader = getBodyStream(req).getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      received += value.byteLength;
+      if (received > limit) {
+        await reader.cancel();
+        throw new HttpError(413, "Request entity too large");
+      }
+
+      chunks.push(value);
+    }
+  } catch (err) {
+    if (err instanceof HttpError) {
+      throw err;
+    }
+    throw new HttpError(400, "Failed to read request body", { cause: err });
+  }
+
+  const bytes = new Uint8Array(received);
+  let offset = 0;
+
+  chunks.forEach((chunk) => {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+
+  return bytes;
+}
+
+/**
+ * Sets the parsed body on the request, shadowing the Web Request body stream
+ * @param {RequestContext} req - The request context
+ * @param {unknown} value - The parsed body
+ */
+function setBody(req: RequestContext, value: unknown): void {
+  Object.defineProperty(req, "body", {
+    value,
+    writable: true,
+    enumerable: true,
+    configurable: true,
+  });
+  parsedRequests.add(req);
+}
+
+/**
+ * Creates a body parsing middleware
+ * @param {string[]} defaultTypes - Media types parsed when no type option is given
+ * @param {number | string} defaultLimit - Size limit used when no limit option is given
+ * @param {BodyParserOptions} options - The parser options
+ * @param {BodyParse} parse - Converts the body bytes into req.body
+ * @returns {RouteHandler} The body parsing middleware
+ */
+function createParser(
+  defaultTypes: string[],
+  defaultLimit: number | string,
+  options: BodyParserOptions,
+  parse: BodyParse
+): RouteHandler {
+  const limit = parseBytes(options.limit ?? defaultLimit);
+  const type = options.type ?? defaultTypes;
+  const patterns = typeof type === "string" ? [type] : type;
+
+  const shouldParse = (req: RequestContext, contentType: string): boolean => {
+    if (typeof patterns === "function") {
+      return patterns(req);
+    }
+    return patterns.some((pattern) => typeMatches(contentType, pattern));
+  };
+
+  return async function bodyParser(
+    req: RequestContext,
+    _res: ResponseContext,
+    next?: NextFunction
+  ): Promise<void> {
+    const contentType = parseContentType(req.headers.get("Content-Type"));
+
+    if (
+      parsedRequests.has(req) ||
+      req.bodyUsed ||
+      !contentType ||
+      !shouldParse(req, contentType.type) ||
+      req.headers.get("Content-Length") === "0" ||
+      req.body === null
+    ) {
+      next?.();
+      return;
+    }
+
+    const bytes = await readBody(req, limit);
+    setBody(req, await parse(bytes, req, contentType.parameters));
+    next?.();
+  };
+}
+
+/**
+ * Creates a middleware that parses JSON bodies
+ * @param {JsonOptions} [options={}] - Optional parser options
+ * @returns {RouteHandler} The JSON body parser
+ */
+export function json(options: JsonOptions = {}): RouteHandler {
+  const { strict = true, reviver } = options;
+
+  return createParser(
+    ["application/json", "application/*+json"],
+    "100kb",
+    options,
+    (bytes, _req, parameters) => {
+      const text = decodeText(bytes, parameters.charset ?? "utf-8");
+
+      if (text.trim() === "") {
+        return {};
+      }
+
+      if (strict && !/^\s*[[{]/.test(text)) {
+        throw new HttpError(400, "JSON body must be an object or array");
+      }
+
+      try {
+        return JSON.parse(text, reviver);
+      } catch (err) {
+        throw new HttpError(400, "Malformed JSON body", { cause: err });
+      }
+    }
+  );
+}
+
+/**
+ * Creates a middleware that parses URL-encoded form bodies
+ * @param {UrlencodedOptions} [options={}] - Optional parser options
+ * @returns {RouteHandler} The URL-encoded body parser
+ */
+export function urlencoded(options: UrlencodedOptions = {}): RouteHandler {
+  const { extended = true, parameterLimit = 1000 } = options;
+
+  return createParser(
+    ["application/x-www-form-urlencoded"],
+    "100kb",
+    options,
+    (bytes, _req, parameters) => {
+      const text = decodeText(bytes, parameters.charset ?? "utf-8");
+
+      try {
+        return parseQuery(text, { extended, parameterLimit });
+      } catch (err) {
+        if (err instanceof ParameterLimitError) {
+          throw new HttpError(413, "Too many parameters", { cause: err });
+        }
+        if (err instanceof URIError || err instanceof SyntaxError) {
+          throw new HttpError(400, "Malformed URL-encoded body", {
+            cause: err,
+          });
+        }
+        throw err;
+      }
+    }
+  );
+}
+
+/**
+ * Creates a middleware that reads text bodies into a string
+ * @param {TextOptions} [options={}] - Optional parser options
+ * @returns {RouteHandler} The text body parser
+ */
+export function text(options: TextOptions = {}): RouteHandler {
+  const { defaultCharset = "utf-8" } = options;
+
+  return createParser(["text/*"], "100kb", options, (bytes, _req, parameters) =>
+    decodeText(bytes, parameters.charset ?? defaultCharset)
+  );
+}
+
+/**
+ * Creates a middleware that reads bodies into a Uint8Array
+ * @param {BodyParserOptions} [options={}] - Optional parser options
+ * @returns {RouteHandler} The raw body parser
+ */
+export function raw(options: BodyParserOptions = {}): RouteHandler {
+  return createParser(
+    ["application/octet-stream"],
+    "100kb",
+    options,
+    (bytes) => bytes
+  );
+}
+
+/**
+ * Creates a middleware that parses multipart/form-data bodies. Text fields
+ * become strings and file parts become File objects; repeated names become arrays.
+ * @param {MultipartOptions} [options={}] - Optional parser options
+ * @returns {RouteHandler} The multipart body parser
+ */
+export function multipart(options: MultipartOptions = {}): RouteHandler {
+  const fileSize = parseBytes(options.fileSize ?? Infinity);
+  const maxFiles = options.files ?? Infinity;
+
+  return createParser(
+    ["multipart/form-data"],
+    "10mb",
+    options,
+    async (bytes, req, parameters) => {
+      if (!parameters.boundary) {
+        throw new HttpError(400, "Missing multipart boundary");
+      }
+
+      let form: FormData;
+
+      try {
+        form = await new Response(bytes, {
+          headers: { "Content-Type": req.headers.get("Content-Type") ?? "" },
+        }).formData();
+      } catch (err) {
+        throw new HttpError(400, "Malformed multipart body", { cause: err });
+      }
+
+      const body: MultipartBody = {};
+      let fileCount = 0;
+
+      form.forEach((value, name) => {
+        if (value instanceof File) {
+          fileCount++;
+          if (fileCount > maxFiles) {
+            throw new HttpError(413, "Too many files");
+          }
+          if (value.size > fileSize) {
+            throw new HttpError(413, `File "${value.name}" is too large`);
+          }
+        }
+
+        const existing = body[name];
+        if (existing === undefined) {
+          body[name] = value;
+        } else if (Array.isArray(existing)) {
+          existing.push(value);
+        } else {
+          body[name] = [existing, value];
+        }
+      });
+
+      return body;
+    }
+  );
+}
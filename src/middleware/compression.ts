@@ -0,0 +1,180 @@
+/**
+ * @file compression.ts
+ * @description Response compression middleware for the framework.
+ * Negotiates Accept-Encoding and compresses response bodies with
+ * CompressionStream as they are sent.
+ * @author Sriram Sundar
+ */
+
+import { RequestContext, RouteHandler } from "../core/app.ts";
+import { parseContentType } from "../utils/mime.ts";
+
+/**
+ * Content codings the middleware can produce
+ */
+export type CompressionEncoding = "br" | "gzip" | "deflate";
+
+/**
+ * Configuration options for compression
+ */
+export interface CompressionOptions {
+  /** Minimum body size in bytes, or a string such as "1kb" (defaults to 1kb) */
+  threshold?: number | string;
+  /** Offered codings in preference order (defaults to br, gzip, deflate) */
+  encodings?: CompressionEncoding[];
+  /** Decides whether a response should be compressed (defaults to compressible types) */
+  filter?: (req: RequestContext, response: Response) => boolean;
+}
+
+/**
+ * CompressionStream formats for each content coding
+ */
+const FORMATS: Record<CompressionEncoding, string> = {
+  br: "brotli",
+  gzip: "gzip",
+  deflate: "deflate",
+};
+
+/**
+ * Bytes per size unit
+ */
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 * 1024,
+};
+
+/**
+ * Statuses whose responses are never compressed
+ */
+const SKIPPED_STATUSES = new Set([101, 204, 206, 304]);
+
+/**
+ * Checks whether the runtime's CompressionStream supports a format
+ * @param {string} format - The format name
+ * @returns {boolean} True if the format is supported
+ */
+function supportsFormat(format: string): boolean {
+  try {
+    new CompressionStream(format as CompressionFormat);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Converts a threshold option into bytes
+ * @param {number | string} value - Bytes, or a string such as "1kb"
+ * @returns {number} The threshold in bytes
+ * @throws {TypeError} If the string is not a valid size
+ */
+function parseSize(value: number | string): number {
+  if (typeof value === "number") {
+    return value;
+  }
+
+  const match = /^(\d+(?:\.\d+)?)\s*(b|kb|mb)?$/i.exec(value.trim());
+  if (!match) {
+    throw new TypeError(`Invalid size: ${value}`);
+  }
+
+  return Math.floor(
+    Number(match[1]) * SIZE_UNITS[(match[2] ?? "b").toLowerCase()]
+  );
+}
+
+/**
+ * Checks whether a response's Content-Type is worth compressing: text,
+ * JSON, JavaScript, XML and SVG. Event streams are left alone so events are
+ * not held back by the compressor.
+ * @param {RequestContext} _req - The request
+ * @param {Response} response - The response
+ * @returns {boolean} True if the type is compressible
+ */
+export function isCompressible(
+  _req: RequestContext,
+  response: Response
+): boolean {
+  const type = parseContentType(response.headers.get("Content-Type"))?.type;
+
+  if (!type || type === "text/event-stream") {
+    return false;
+  }
+
+  return (
+    type.startsWith("text/") ||
+    /^application\/(?:json|javascript|xml|x-www-form-urlencoded)$/.test(type) ||
+    /\+(?:json|xml)$/.test(type) ||
+    type === "image/svg+xml"
+  );
+}
+
+/**
+ * Creates middleware that compresses response bodies the client accepts in
+ * a compressed coding
+ * @param {CompressionOptions} [options={}] - Compression configuration options
+ * @returns {RouteHandler} The middleware function
+ */
+export function compression(options: CompressionOptions = {}): RouteHandler {
+  const threshold = parseSize(options.threshold ?? "1kb");
+  const filter = options.filter ?? isCompressible;
+  const encodings = (options.encodings ?? ["br", "gzip", "deflate"]).filter(
+    (encoding) => supportsFormat(FORMATS[encoding])
+  );
+
+  return function compressionMiddleware(req, res, next) {
+    res.onBeforeSend((response) => {
+      if (
+        !response.body ||
+        SKIPPED_STATUSES.has(response.status) ||
+        !filter(req, response)
+      ) {
+        return;
+      }
+
+      const headers = new Headers(response.headers);
+      const vary = headers.get("Vary") ?? "";
+      if (!/(?:^|,)\s*(?:accept-encoding|\*)\s*(?:,|$)/i.test(vary)) {
+        headers.set(
+          "Vary",
+          vary ? `${vary}, Accept-Encoding` : "Accept-Encoding"
+        );
+      }
+
+      const length = Number(headers.get("Content-Length") ?? NaN);
+      const encoding = req.acceptsEncodings(...encodings, "identity");
+      const init = { status: response.status, statusText: response.statusText };
+
+      if (
+        req.method === "HEAD" ||
+        (headers.get("Content-Encoding") ?? "identity") !== "identity" ||
+        /(?:^|,)\s*no-transform\s*(?:,|$)/i.test(
+          headers.get("Cache-Control") ?? ""
+        ) ||
+        length < threshold ||
+        !encoding ||
+        encoding === "identity"
+      ) {
+        return new Response(response.body, { ...init, headers });
+      }
+
+      const etag = headers.get("ETag");
+      headers.set("Content-Encoding", encoding);
+      headers.delete("Content-Length");
+      if (etag && !etag.startsWith("W/")) {
+        headers.set("ETag", `W/${etag}`);
+      }
+
+      const format = FORMATS[encoding as CompressionEncoding];
+      return new Response(
+        response.body.pipeThrough(
+          new CompressionStream(format as CompressionFormat)
+        ),
+        { ...init, headers }
+      );
+    });
+
+    next?.();
+  };
+}
@@ -0,0 +1,209 @@
+/**
+ * @file cors.ts
+ * @description Cross-Origin Resource Sharing middleware for the framework.
+ * Adds CORS headers to responses and answers preflight requests with the
+ * methods registered for the requested path.
+ * @author Sriram Sundar
+ */
+
+import { App, RequestContext, RouteHandler } from "../core/app.ts";
+
+/**
+ * Decides the allowed origin for a request: true reflects the request origin,
+ * false refuses it and a string is sent as-is
+ */
+export type OriginFunction = (
+  origin: string | null,
+  req: RequestContext
+) => boolean | string | Promise<boolean | string>;
+
+/**
+ * Configuration options for CORS
+ */
+export interface CorsOptions {
+  /**
+   * Allowed origins: "*" (the default), a fixed origin, true to reflect the
+   * request origin, false to disable CORS, a RegExp or list of origins and
+   * RegExps to match, or a function
+   */
+  origin?: boolean | string | RegExp | Array<string | RegExp> | OriginFunction;
+  /** Methods allowed in preflight responses (defaults to the path's registered methods) */
+  methods?: string | string[];
+  /** Request headers allowed in preflight responses (defaults to reflecting the request) */
+  allowedHeaders?: string | string[];
+  /** Response headers exposed to the browser */
+  exposedHeaders?: string | string[];
+  /** Whether to allow credentials such as cookies */
+  credentials?: boolean;
+  /** Seconds the browser may cache preflight responses */
+  maxAge?: number;
+  /** Pass preflight requests to the next handler instead of answering them */
+  preflightContinue?: boolean;
+  /** Status code for answered preflight requests (defaults to 204) */
+  optionsSuccessStatus?: number;
+}
+
+/**
+ * Methods allowed in preflight responses when no route matches the path
+ */
+const DEFAULT_METHODS = ["GET", "HEAD", "PUT", "PATCH", "POST", "DELETE"];
+
+/**
+ * Joins a header list option into a header value
+ * @param {string | string[]} value - A list or a comma-separated string
+ * @returns {string} The header value
+ */
+function joinList(value: string | string[]): string {
+  return Array.isArray(value) ? value.join(",") : value;
+}
+
+/**
+ * Checks whether an origin matches a string, RegExp or list of them
+ * @param {string} origin - The request origin
+ * @param {string | RegExp | Array<string | RegExp>} allowed - The allowed origins
+ * @returns {boolean} True if the origin is allowed
+ */
+function matchesOrigin(
+  origin: string,
+  allowed: string | RegExp | Array<string | RegExp>
+): boolean {
+  if (Array.isArray(allowed)) {
+    return allowed.some((entry) => matchesOrigin(origin, entry));
+  }
+  return typeof allowed === "string"
+    ? allowed === origin
+    : allowed.test(origin);
+}
+
+/**
+ * Finds the app at the root of a chain of mounted apps
+ * @param {App} app - The current app
+ * @returns {App} The root app
+ */
+function rootApp(app: App): App {
+  return app.parent ? rootApp(app.parent) : app;
+}
+
+/**
+ * Creates middleware that adds CORS headers. Used with app.use() it applies
+ * to every route; used on a route, register it for OPTIONS too so preflight
+ * requests are answered, e.g. `app.options("/items", cors())` alongside
+ * `app.get("/items", cors(), list)`.
+ * @param {CorsOptions} [options={}] - CORS configuration options
+ * @returns {RouteHandler} The middleware function
+ */
+export function cors(options: CorsOptions = {}): RouteHandler {
+  const {
+    origin: allowedOrigin = "*",
+    methods,
+    allowedHeaders,
+    exposedHeaders,
+    credentials = false,
+    maxAge,
+    preflightContinue = false,
+    optionsSuccessStatus = 204,
+  } = options;
+
+  /**
+   * Works out the Access-Control-Allow-Origin value for a request
+   * @param {RequestContext} req - The request
+   * @returns {Promise<{ value: string | null, vary: boolean }>} The header value, or null to refuse, and whether it depends on the Origin header
+   */
+  const resolveOrigin = async (
+    req: RequestContext
+  ): Promise<{ value: string | null; vary: boolean }> => {
+    const origin = req.get("Origin");
+
+    if (allowedOrigin === "*") {
+      return credentials
+        ? { value: origin, vary: true }
+        : { value: "*", vary: false };
+    }
+
+    if (typeof allowedOrigin === "string") {
+      return { value: allowedOrigin, vary: true };
+    }
+
+    const decision =
+      typeof allowedOrigin === "function"
+        ? await allowedOrigin(origin, req)
+        : typeof allowedOrigin === "boolean"
+        ? allowedOrigin
+        : origin !== null && matchesOrigin(origin, allowedOrigin);
+
+    if (typeof decision === "string") {
+      return { value: decision, vary: true };
+    }
+    return { value: decision ? origin : null, vary: true };
+  };
+
+  return async function corsMiddleware(req, res, next) {
+    if (allowedOrigin === false) {
+      next?.();
+      return;
+    }
+
+    const { value, vary } = await resolveOrigin(req);
+
+    if (vary) {
+      res.vary("Origin");
+    }
+
+    if (value) {
+      res.set("Access-Control-Allow-Origin", value);
+      if (credentials) {
+        res.set("Access-Control-Allow-Credentials", "true");
+      }
+    }
+
+    const isPreflight =
+      req.method === "OPTIONS" &&
+      req.get("Access-Control-Request-Method") !== null;
+
+    if (!isPreflight) {
+      if (value && exposedHeaders) {
+        res.set("Access-Control-Expose-Headers", joinList(exposedHeaders));
+      }
+      next?.();
+      return;
+    }
+
+    if (value) {
+      const pathname = req.originalUrl.split("?")[0];
+      // A bare router has no app, so only the routes matched so far are known
+      const routeMethods = (
+        req.app
+          ? rootApp(req.app)._router?.allowedMethods(pathname) ?? []
+          : [...(req._allowedMethods ?? [])]
+      ).filter((method) => method !== "OPTIONS");
+
+      res.set(
+        "Access-Control-Allow-Methods",
+        methods
+          ? joinList(methods)
+          : joinList(routeMethods?.length ? routeMethods : DEFAULT_METHODS)
+      );
+
+      if (allowedHeaders) {
+        res.set("Access-Control-Allow-Headers", joinList(allowedHeaders));
+      } else {
+        const requested = req.get("Access-Control-Request-Headers");
+        res.vary("Access-Control-Request-Headers");
+        if (requested) {
+          res.set("Access-Control-Allow-Headers", requested);
+        }
+      }
+
+      if (maxAge !== undefined) {
+        res.set("Access-Control-Max-Age", String(maxAge));
+      }
+    }
+
+    if (preflightContinue) {
+      next?.();
+      return;
+    }
+
+    await res.status(optionsSuccessStatus).end();
+  };
+}
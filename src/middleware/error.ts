@@ -0,0 +1,110 @@
+/**
+ * @file error.ts
+ * @description Default error-handling middleware for the framework.
+ * Renders errors passed with next(err) as JSON or plain text.
+ * @author Sriram Sundar
+ */
+
+import { ErrorHandler, RequestContext, ResponseContext } from "../core/app.ts";
+import {
+  getErrorStatus,
+  ValidationError,
+  ValidationIssue,
+} from "../core/errors.ts";
+import STATUS_TEXT from "../core/status.ts";
+import { NextFunction } from "../router/router.ts";
+
+/**
+ * Configuration options for the error handler
+ */
+export interface ErrorHandlerOptions {
+  /** Response format, "auto" picks JSON when the client accepts it */
+  format?: "json" | "text" | "auto";
+  /** Whether to log server errors (status >= 500) */
+  log?: boolean;
+  /** Whether to include the stack trace; defaults to server errors in the "development" env */
+  stack?: boolean;
+}
+
+/**
+ * Determines whether an error's message may be sent to the client
+ * @param {unknown} err - The error value
+ * @param {number} status - The resolved HTTP status
+ * @returns {boolean} True if the message can be exposed
+ */
+function isExposed(err: unknown, status: number): boolean {
+  if (typeof err === "object" && err !== null && "expose" in err) {
+    return Boolean((err as { expose: unknown }).expose);
+  }
+  return status < 500;
+}
+
+/**
+ * Formats a validation issue as a line of text, e.g. "query.page: Expected a number"
+ * @param {ValidationIssue} issue - The issue
+ * @returns {string} The formatted issue
+ */
+function formatIssue(issue: ValidationIssue): string {
+  return `${[issue.location, ...issue.path].join(".")}: ${issue.message}`;
+}
+
+/**
+ * Creates an error-handling middleware
+ * @param {ErrorHandlerOptions} [options={}] - Optional configuration options
+ * @returns {ErrorHandler} The error-handling middleware
+ */
+export function errorHandler(options: ErrorHandlerOptions = {}): ErrorHandler {
+  const { format = "auto", log = true, stack } = options;
+
+  /**
+   * error-handling middleware
+   * @param {unknown} err - The error passed to next(err)
+   * @param {RequestContext} req - The request context
+   * @param {ResponseContext} res - The response context
+   * @param {NextFunction} _next - The next middleware function
+   */
+  return async function defaultErrorHandler(
+    err: unknown,
+    req: RequestContext,
+    res: ResponseContext,
+    _next: NextFunction
+  ): Promise<void> {
+    if (res._response) {
+      return;
+    }
+
+    const status = getErrorStatus(err);
+    const message =
+      isExposed(err, status) && err instanceof Error
+        ? err.message
+        : STATUS_TEXT[status] ?? "Unknown Error";
+    const showStack =
+      stack ?? (status >= 500 && req.app?.settings.env === "development");
+    const trace = showStack && err instanceof Error ? err.stack : undefined;
+    const issues =
+      err instanceof ValidationError && isExposed(err, status)
+        ? err.issues
+        : undefined;
+
+    if (log && status >= 500) {
+      (req.app?.logger ?? console).error("Unhandled error:", err);
+    }
+
+    const useJson =
+      format === "json" ||
+      (format === "auto" &&
+        (req.headers.get("Accept") ?? "").includes("application/json"));
+
+    res.headers.delete("Content-Type");
+    res.status(status);
+
+    if (useJson) {
+      await res.json({ error: { status, message, issues, stack: trace } });
+    } else {
+      res.headers.set("Content-Type", "text/plain; charset=utf-8");
+      await res.send(
+        trace ?? [message, ...(issues ?? []).map(formatIssue)].join("\n")
+      );
+    }
+  };
+}
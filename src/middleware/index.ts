@@ -5,7 +5,13 @@
  * @author Sriram Sundar
  */
 
-import { RouteHandler, ResponseContext, App } from "../core/app.ts";
+import {
+  RouteHandler,
+  RequestContext,
+  ResponseContext,
+  App,
+} from "../core/app.ts";
+import { extendRequest } from "../http/request.ts";
 
 /**
  * Creates the initialization middleware for the application
@@ -15,21 +21,26 @@ import { RouteHandler, ResponseContext, App } from "../core/app.ts";
 export function init(app: App): RouteHandler {
   /**
    * initialization middleware
-   * @param {Request} req - The request object
+   * @param {RequestContext} req - The request context
    * @param {ResponseContext} res - The response context
    * @param {Function} next - The next middleware function
    */
   return function expressInit(
-    req: Request,
+    req: RequestContext,
     res: ResponseContext,
     next?: () => void
   ): void {
+    req.app = app;
+    extendRequest(req, app.settings);
+
+    if (app.enabled("x-powered-by")) {
+      res.set("X-Powered-By", "deno-express");
+    }
+
     if (app.responseExtensions) {
       Object.assign(res, app.responseExtensions);
     }
 
-    console.log("Express init middleware executed!");
-
     next?.();
   };
 }
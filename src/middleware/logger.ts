@@ -0,0 +1,349 @@
+/**
+ * @file logger.ts
+ * @description Request logging middleware for the framework. Writes one line
+ * per request once its response has finished, in Apache common or combined
+ * format, a colored development format, structured JSON or a custom token
+ * format.
+ * @author Sriram Sundar
+ */
+
+import {
+  FinishInfo,
+  RequestContext,
+  ResponseContext,
+  RouteHandler,
+} from "../core/app.ts";
+
+/**
+ * Computes the value of a format token such as `:status` or `:req[accept]`.
+ * Returning undefined prints "-".
+ */
+export type TokenFunction = (
+  req: RequestContext,
+  res: ResponseContext,
+  info: FinishInfo,
+  arg?: string
+) => string | number | undefined;
+
+/**
+ * Builds the log line for a finished request
+ */
+export type FormatFunction = (
+  tokens: Record<string, TokenFunction>,
+  req: RequestContext,
+  res: ResponseContext,
+  info: FinishInfo
+) => string | undefined;
+
+/**
+ * Receives each log line, without a trailing newline
+ */
+export type LogSink = (line: string) => void | Promise<void>;
+
+/**
+ * Options for request IDs
+ */
+export interface RequestIdOptions {
+  /** The request and response header carrying the id (defaults to X-Request-Id) */
+  header?: string;
+  /** Creates an id when the request has none (defaults to crypto.randomUUID) */
+  generate?: () => string;
+}
+
+/**
+ * Configuration options for the logger
+ */
+export interface LoggerOptions {
+  /**
+   * Where lines are written: "stdout" (the default), "stderr", a file path
+   * to append to, or a callback
+   */
+  stream?: "stdout" | "stderr" | { path: string } | LogSink;
+  /** Skips logging a request when it returns true */
+  skip?: (
+    req: RequestContext,
+    res: ResponseContext,
+    info: FinishInfo
+  ) => boolean;
+  /** Custom tokens, available in format strings as `:name` */
+  tokens?: Record<string, TokenFunction>;
+  /**
+   * Assigns each request an id, taken from the request header when present,
+   * echoed in the response header and stored as res.locals.requestId
+   * (defaults to true)
+   */
+  requestId?: boolean | RequestIdOptions;
+}
+
+/**
+ * The formats available by name
+ */
+export type LogFormatName = "common" | "combined" | "dev" | "short" | "json";
+
+/**
+ * Month abbreviations for Apache's date format
+ */
+const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+/**
+ * Matches tokens in a format string, with an optional bracketed argument
+ */
+const TOKEN_PATTERN = /:([a-z][\w-]*)(?:\[([^\]]+)\])?/gi;
+
+/**
+ * Pads a number with leading zeros to two digits
+ * @param {number} value - The number
+ * @returns {string} The padded number
+ */
+function pad2(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+/**
+ * Formats a date in Apache's log format, e.g. 10/Oct/2000:13:55:36 +0000
+ * @param {Date} date - The date
+ * @returns {string} The formatted date in UTC
+ */
+function formatClfDate(date: Date): string {
+  return (
+    `${pad2(date.getUTCDate())}/${MONTHS[date.getUTCMonth()]}/` +
+    `${date.getUTCFullYear()}:${pad2(date.getUTCHours())}:` +
+    `${pad2(date.getUTCMinutes())}:${pad2(date.getUTCSeconds())} +0000`
+  );
+}
+
+/**
+ * Gets the user name from a Basic Authorization header
+ * @param {RequestContext} req - The request
+ * @returns {string | undefined} The user name, if any
+ */
+function basicAuthUser(req: RequestContext): string | undefined {
+  const match = /^basic\s+(\S+)$/i.exec(req.get("Authorization") ?? "");
+  if (!match) {
+    return undefined;
+  }
+
+  try {
+    const decoded = atob(match[1]);
+    const separator = decoded.indexOf(":");
+    return separator === -1 ? undefined : decoded.slice(0, separator);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The built-in tokens
+ */
+const TOKENS: Record<string, TokenFunction> = {
+  method: (req) => req.method,
+  url: (req) => req.originalUrl,
+  status: (_req, _res, info) => info.status,
+  bytes: (_req, _res, info) => (info.bytes > 0 ? info.bytes : undefined),
+  "response-time": (_req, _res, info) => info.duration.toFixed(3),
+  date: (_req, _res, _info, format = "web") => {
+    const now = new Date();
+    switch (format) {
+      case "clf":
+        return formatClfDate(now);
+      case "iso":
+        return now.toISOString();
+      default:
+        return now.toUTCString();
+    }
+  },
+  "remote-addr": (req) => req.ip || undefined,
+  "remote-user": (req) => basicAuthUser(req),
+  // Deno does not expose the protocol version of a request
+  "http-version": () => "1.1",
+  referrer: (req) => req.get("Referer") ?? undefined,
+  "user-agent": (req) => req.get("User-Agent") ?? undefined,
+  id: (_req, res) =>
+    typeof res.locals.requestId === "string" ? res.locals.requestId : undefined,
+  req: (req, _res, _info, field) =>
+    field ? req.get(field) ?? undefined : undefined,
+  res: (_req, _res, info, field) =>
+    field ? info.headers.get(field) ?? undefined : undefined,
+};
+
+/**
+ * Compiles a token format string into a format function. Unknown tokens are
+ * left as written.
+ * @param {string} format - The format, e.g. ":method :url :status"
+ * @returns {FormatFunction} The format function
+ */
+function compileFormat(format: string): FormatFunction {
+  return (tokens, req, res, info) =>
+    format.replace(TOKEN_PATTERN, (match, name: string, arg?: string) => {
+      const token = tokens[name];
+      if (!token) {
+        return match;
+      }
+      const value = token(req, res, info, arg);
+      return value === undefined || value === "" ? "-" : String(value);
+    });
+}
+
+/**
+ * Colors text with an ANSI code unless colors are disabled with NO_COLOR
+ * @param {number} code - The ANSI color code
+ * @param {string} text - The text to color
+ * @returns {string} The colored text
+ */
+function color(code: number, text: string): string {
+  return Deno.noColor ? text : `\x1b[${code}m${text}\x1b[0m`;
+}
+
+/**
+ * The named formats
+ */
+const FORMATS: Record<LogFormatName, FormatFunction> = {
+  common: compileFormat(
+    ':remote-addr - :remote-user [:date[clf]] ":method :url HTTP/:http-version" :status :bytes'
+  ),
+  combined: compileFormat(
+    ':remote-addr - :remote-user [:date[clf]] ":method :url HTTP/:http-version" :status :bytes ":referrer" ":user-agent"'
+  ),
+  short: compileFormat(
+    ":remote-addr :remote-user :method :url HTTP/:http-version :status :bytes - :response-time ms"
+  ),
+  dev: (tokens, req, res, info) => {
+    const status = info.status;
+    const code =
+      status >= 500 ? 31 : status >= 400 ? 33 : status >= 300 ? 36 : 32;
+    const line =
+      `${req.method} ${req.originalUrl} ${color(code, String(status))} ` +
+      `${info.duration.toFixed(3)} ms - ${tokens.bytes(req, res, info) ?? "-"}`;
+    return info.aborted ? `${line} ${color(90, "(aborted)")}` : line;
+  },
+  json: (_tokens, req, res, info) =>
+    JSON.stringify({
+      time: new Date().toISOString(),
+      id: res.locals.requestId,
+      method: req.method,
+      url: req.originalUrl,
+      status: info.status,
+      bytes: info.bytes,
+      duration: Number(info.duration.toFixed(3)),
+      aborted: info.aborted || undefined,
+      ip: req.ip || undefined,
+      referrer: req.get("Referer") ?? undefined,
+      userAgent: req.get("User-Agent") ?? undefined,
+    }),
+};
+
+/**
+ * Creates a sink that writes lines to a writer, one at a time in order. A
+ * failed line rejects only its own promise; if opening the writer failed,
+ * the next line tries to open it again.
+ * @param {() => Promise<{ write(p: Uint8Array): Promise<number> }>} open - Opens the writer on first use
+ * @returns {LogSink} The sink
+ */
+function createWriterSink(
+  open: () => Promise<{ write(p: Uint8Array): Promise<number> }>
+): LogSink {
+  const encoder = new TextEncoder();
+  let writer: ReturnType<typeof open> | undefined;
+  let queue = Promise.resolve();
+
+  return (line) => {
+    const written = queue.then(async () => {
+      const opening = (writer ??= open());
+      const target = await opening.catch((err) => {
+        if (writer === opening) {
+          writer = undefined;
+        }
+        throw err;
+      });
+
+      let bytes = encoder.encode(`${line}\n`);
+      while (bytes.length > 0) {
+        bytes = bytes.subarray(await target.write(bytes));
+      }
+    });
+
+    queue = written.catch(() => {});
+    return written;
+  };
+}
+
+/**
+ * Resolves the stream option into a sink
+ * @param {LoggerOptions["stream"]} stream - The stream option
+ * @returns {LogSink} The sink
+ */
+function resolveSink(stream: LoggerOptions["stream"] = "stdout"): LogSink {
+  if (typeof stream === "function") {
+    return stream;
+  }
+  if (stream === "stdout") {
+    return createWriterSink(() => Promise.resolve(Deno.stdout));
+  }
+  if (stream === "stderr") {
+    return createWriterSink(() => Promise.resolve(Deno.stderr));
+  }
+  return createWriterSink(() =>
+    Deno.open(stream.path, { write: true, create: true, append: true })
+  );
+}
+
+/**
+ * Creates middleware that logs each request once its response has finished
+ * @param {LogFormatName | string | FormatFunction} [format="dev"] - A named format, a token format string or a format function
+ * @param {LoggerOptions} [options={}] - Logger configuration options
+ * @returns {RouteHandler} The middleware function
+ */
+export function logger(
+  format: LogFormatName | string | FormatFunction = "dev",
+  options: LoggerOptions = {}
+): RouteHandler {
+  const { skip, requestId = true } = options;
+  const tokens = { ...TOKENS, ...options.tokens };
+  const sink = resolveSink(options.stream);
+  const formatLine =
+    typeof format === "function"
+      ? format
+      : FORMATS[format as LogFormatName] ?? compileFormat(format);
+
+  const idOptions = typeof requestId === "object" ? requestId : {};
+  const idHeader = idOptions.header ?? "X-Request-Id";
+  const generateId = idOptions.generate ?? (() => crypto.randomUUID());
+
+  return function loggerMiddleware(req, res, next) {
+    if (requestId) {
+      const id = req.get(idHeader) || generateId();
+      res.locals.requestId = id;
+      res.set(idHeader, id);
+    }
+
+    res.onFinish((info) => {
+      if (skip?.(req, res, info)) {
+        return;
+      }
+
+      const line = formatLine(tokens, req, res, info);
+      if (line === undefined) {
+        return;
+      }
+
+      Promise.resolve(sink(line)).catch((err) =>
+        (req.app?.logger ?? console).error("Error writing request log:", err)
+      );
+    });
+
+    next?.();
+  };
+}
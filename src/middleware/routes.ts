@@ -0,0 +1,132 @@
+/**
+ * @file routes.ts
+ * @description Route inspector middleware for development. Lists the routes
+ * of the top-level app as JSON or an HTML table, and with ?path= shows which
+ * of them a request path reaches, to help debug unexpected 404s.
+ * @author Sriram Sundar
+ */
+
+import { App, RouteHandler } from "../core/app.ts";
+import { RouteInfo } from "../router/inspect.ts";
+import { compilePath } from "../router/path.ts";
+import { escapeHtml } from "../utils/html.ts";
+
+/**
+ * Configuration options for the route inspector
+ */
+export interface RouteInspectorOptions {
+  /** Whether to serve the listing (defaults to true when the "env" setting is "development") */
+  enabled?: boolean;
+}
+
+/**
+ * A listed route, marked with whether it matches the inspected request
+ */
+interface InspectedRoute extends RouteInfo {
+  /** Whether the inspected path and method reach the route */
+  matches?: boolean;
+}
+
+/**
+ * Renders the route listing as an HTML page
+ * @param {InspectedRoute[]} routes - The routes to list
+ * @param {string} [path] - The inspected request path, if any
+ * @returns {string} The HTML page
+ */
+function renderPage(routes: InspectedRoute[], path?: string): string {
+  const rows = routes
+    .map(
+      (route) =>
+        `<tr${route.matches ? ' class="match"' : ""}>` +
+        `<td>${escapeHtml(route.method)}</td>` +
+        `<td><code>${escapeHtml(route.path)}</code></td>` +
+        `<td>${escapeHtml(route.middleware.join(" → "))}</td>` +
+        `<td>${escapeHtml(route.handlers.join(" → "))}</td>` +
+        `<td><code>${escapeHtml(route.mountpath)}</code></td></tr>`
+    )
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Routes</title>
+<style>
+  body { font: 14px/1.5 system-ui, sans-serif; margin: 2rem; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; padding: .3rem .6rem; border-bottom: 1px solid #ddd; }
+  tr.match { background: #dafbe1; }
+</style>
+</head>
+<body>
+<h1>Routes</h1>
+<form><input name="path" placeholder="/users/42" value="${escapeHtml(
+    path ?? ""
+  )}"> <button>Find matches</button></form>
+<table>
+<tr><th>Method</th><th>Path</th><th>Middleware</th><th>Handlers</th><th>Mounted at</th></tr>
+${rows}
+</table>
+</body>
+</html>
+`;
+}
+
+/**
+ * Creates middleware listing the routes of the top-level app. Mount it at
+ * a path such as "/__routes". It answers only in development unless enabled
+ * explicitly, passing requests on otherwise. JSON is returned to clients
+ * that prefer it over HTML. With ?path=/some/path (and optionally &method=),
+ * routes the request would reach are marked with `matches`.
+ * @param {RouteInspectorOptions} [options={}] - Inspector options
+ * @returns {RouteHandler} The middleware function
+ */
+export function routeInspector(
+  options: RouteInspectorOptions = {}
+): RouteHandler {
+  return async function routeInspectorMiddleware(req, res, next) {
+    const enabled = options.enabled ?? req.app.get("env") === "development";
+
+    if (
+      !enabled ||
+      req.path !== "/" ||
+      (req.method !== "GET" && req.method !== "HEAD")
+    ) {
+      next?.();
+      return;
+    }
+
+    let root: App = req.app;
+    while (root.parent) {
+      root = root.parent;
+    }
+
+    const path = typeof req.query.path === "string" ? req.query.path : "";
+    const method =
+      typeof req.query.method === "string"
+        ? req.query.method.toUpperCase()
+        : "GET";
+    const routes: InspectedRoute[] = root.routes();
+
+    if (path) {
+      for (const route of routes) {
+        const { regexp } = compilePath(route.path, {
+          caseSensitive: root.enabled("case sensitive routing"),
+          strict: root.enabled("strict routing"),
+        });
+        route.matches =
+          regexp.test(path) &&
+          (route.method === method ||
+            (method === "HEAD" && route.method === "GET") ||
+            (method === "GET" && route.method === "WS"));
+      }
+    }
+
+    if (req.accepts("html", "json") === "json") {
+      await res.json(path ? { path, method, routes } : { routes });
+      return;
+    }
+
+    await res.send(renderPage(routes, path || undefined));
+  };
+}
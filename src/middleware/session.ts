@@ -0,0 +1,200 @@
+/**
+ * @file session.ts
+ * @description Session middleware for the framework. Identifies sessions by
+ * an HMAC-signed cookie, keeps their data in a pluggable store and saves it
+ * before the response headers are sent.
+ * @author Sriram Sundar
+ */
+
+import { RouteHandler } from "../core/app.ts";
+import { CookieOptions } from "../utils/cookie.ts";
+import { signValue, unsignValue } from "../utils/sign.ts";
+import {
+  createMemoryStore,
+  SessionData,
+  SessionStore,
+} from "../session/store.ts";
+
+/**
+ * The session of the current request, available as req.session
+ */
+export interface Session {
+  /** The session id */
+  readonly id: string;
+
+  /** Values stored in the session */
+  data: SessionData;
+
+  /** Whether the session was created by this request */
+  readonly isNew: boolean;
+
+  /**
+   * Replaces the session with a new, empty one under a new id, deleting the
+   * old one. Call it after signing in to prevent session fixation.
+   */
+  regenerate: () => Promise<void>;
+
+  /**
+   * Deletes the session from the store and clears its cookie.
+   */
+  destroy: () => Promise<void>;
+
+  /**
+   * Saves the session now instead of when the response is sent.
+   */
+  save: () => Promise<void>;
+
+  /**
+   * Extends the session's expiry and resends its cookie when the response is
+   * sent, even if the data did not change.
+   */
+  touch: () => void;
+}
+
+/**
+ * Configuration options for sessions
+ */
+export interface SessionOptions {
+  /**
+   * Secret used to sign the session cookie. With a list, the first secret
+   * signs and all of them verify, so secrets can be rotated.
+   */
+  secret: string | string[];
+  /** The session cookie name (defaults to "sid") */
+  name?: string;
+  /** Where session data is kept (defaults to an in-memory store) */
+  store?: SessionStore;
+  /**
+   * Session cookie attributes (defaults to HttpOnly, SameSite=Lax on "/").
+   * maxAge also sets how long the store keeps the session.
+   */
+  cookie?: CookieOptions;
+  /** Milliseconds the store keeps sessions when cookie.maxAge is not set (defaults to one day) */
+  ttl?: number;
+  /** Resend the cookie and extend the expiry on every response */
+  rolling?: boolean;
+  /** Save sessions on every response, even if unchanged */
+  resave?: boolean;
+  /** Save new sessions and send their cookie even if nothing was stored in them */
+  saveUninitialized?: boolean;
+  /** Creates session ids (defaults to crypto.randomUUID) */
+  genid?: () => string;
+}
+
+/**
+ * Creates middleware that loads the session named by the request's cookie
+ * into req.session, starting a new one if it is missing, forged or expired
+ * @param {SessionOptions} options - Session configuration options
+ * @returns {RouteHandler} The middleware function
+ * @throws {TypeError} If no secret is given
+ */
+export function session(options: SessionOptions): RouteHandler {
+  const {
+    secret,
+    name = "sid",
+    store = createMemoryStore(),
+    rolling = false,
+    resave = false,
+    saveUninitialized = false,
+    genid = () => crypto.randomUUID(),
+  } = options;
+  const secrets = Array.isArray(secret) ? secret : [secret];
+  const cookieOptions: CookieOptions = {
+    path: "/",
+    httpOnly: true,
+    sameSite: "lax",
+    ...options.cookie,
+  };
+  const ttl = cookieOptions.maxAge ?? options.ttl ?? 24 * 60 * 60 * 1000;
+
+  if (secrets.length === 0 || secrets.some((value) => !value)) {
+    throw new TypeError("session() requires a secret");
+  }
+
+  return async function sessionMiddleware(req, res, next) {
+    if (req.session) {
+      next?.();
+      return;
+    }
+
+    const signed = req.cookies[name];
+    const cookieId = signed ? await unsignValue(signed, secrets) : false;
+    const stored = cookieId ? await store.get(cookieId) : undefined;
+
+    let id = stored && cookieId ? cookieId : genid();
+    let isNew = stored === undefined;
+    let snapshot = JSON.stringify(stored ?? {});
+    let saved = false;
+    let destroyed = false;
+    let touched = false;
+
+    const current: Session = {
+      get id() {
+        return id;
+      },
+      data: stored ?? {},
+      get isNew() {
+        return isNew;
+      },
+
+      async regenerate() {
+        await store.destroy(id);
+        id = genid();
+        isNew = true;
+        saved = false;
+        destroyed = false;
+        current.data = {};
+        snapshot = "";
+      },
+
+      async destroy() {
+        await store.destroy(id);
+        destroyed = true;
+        current.data = {};
+        snapshot = "{}";
+      },
+
+      async save() {
+        await store.set(id, current.data, ttl);
+        snapshot = JSON.stringify(current.data);
+        saved = true;
+        destroyed = false;
+      },
+
+      touch() {
+        touched = true;
+      },
+    };
+
+    req.session = current;
+
+    res.onHeaders(async () => {
+      if (destroyed) {
+        if (cookieId) {
+          res.clearCookie(name, cookieOptions);
+        }
+        return;
+      }
+
+      const modified = JSON.stringify(current.data) !== snapshot;
+
+      if (isNew && !modified && !saved && !saveUninitialized) {
+        return;
+      }
+
+      if (modified || resave || (isNew && !saved)) {
+        await store.set(id, current.data, ttl);
+      } else if (rolling || touched) {
+        await (store.touch
+          ? store.touch(id, current.data, ttl)
+          : store.set(id, current.data, ttl));
+      }
+
+      if (cookieId !== id || rolling || touched) {
+        res.cookie(name, await signValue(id, secrets[0]), cookieOptions);
+      }
+    });
+
+    next?.();
+  };
+}
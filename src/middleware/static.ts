@@ -0,0 +1,407 @@
+/**
+ * @file static.ts
+ * @description Static file serving middleware for the framework.
+ * Streams files from a root directory with conditional GET, range and
+ * directory index support.
+ * @author Sriram Sundar
+ */
+
+import { RequestContext, ResponseContext, RouteHandler } from "../core/app.ts";
+import { HttpError } from "../core/errors.ts";
+import { NextFunction } from "../router/router.ts";
+import { isFresh } from "../utils/etag.ts";
+import { lookupType } from "../utils/mime.ts";
+
+/**
+ * Configuration options for static file serving
+ */
+export interface StaticOptions {
+  /** Index file(s) served for directory requests, or false to disable */
+  index?: string | string[] | false;
+  /** How to treat files and directories starting with "." */
+  dotfiles?: "allow" | "deny" | "ignore";
+  /** Whether to send a weak ETag */
+  etag?: boolean;
+  /** Whether to send Last-Modified */
+  lastModified?: boolean;
+  /** Cache-Control max-age in milliseconds, or a string such as "1d" or "2h" */
+  maxAge?: number | string;
+  /** Whether to add the immutable directive to Cache-Control */
+  immutable?: boolean;
+  /** Whether to answer Range requests with partial content */
+  acceptRanges?: boolean;
+  /** Redirect directory requests to the same path with a trailing "/" */
+  redirect?: boolean;
+  /** Call next() instead of failing when a file is missing or refused */
+  fallthrough?: boolean;
+  /** File (relative to root) served to HTML requests that match no file */
+  fallback?: string;
+  /** Sets custom headers before a file is sent */
+  setHeaders?: (
+    res: ResponseContext,
+    path: string,
+    stat: Deno.FileInfo
+  ) => void;
+}
+
+/**
+ * A byte range within a file, both ends inclusive
+ */
+interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Number of bytes read from disk per chunk
+ */
+const CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Milliseconds per duration unit
+ */
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+  y: 365 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Converts a max-age option into milliseconds
+ * @param {number | string} value - Milliseconds, or a string such as "1d"
+ * @returns {number} The duration in milliseconds
+ */
+function parseDuration(value: number | string): number {
+  if (typeof value === "number") {
+    return value;
+  }
+
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(ms|s|m|h|d|w|y)?\s*$/i.exec(value);
+  if (!match) {
+    throw new TypeError(`Invalid max age: ${value}`);
+  }
+
+  const unit = (match[2] ?? "ms").toLowerCase();
+  return Math.floor(parseFloat(match[1]) * DURATION_UNITS[unit]);
+}
+
+/**
+ * Builds a weak ETag from a file's size and modification time
+ * @param {Deno.FileInfo} stat - The file information
+ * @returns {string} The ETag value
+ */
+function weakEtag(stat: Deno.FileInfo): string {
+  const mtime = stat.mtime?.getTime() ?? 0;
+  return `W/"${stat.size.toString(16)}-${mtime.toString(16)}"`;
+}
+
+/**
+ * Checks whether an If-Range precondition allows a partial response
+ * @param {RequestContext} req - The incoming request context
+ * @param {ResponseContext} res - The response context holding the validators
+ * @returns {boolean} True if the Range header should be honored
+ */
+function isRangeFresh(req: RequestContext, res: ResponseContext): boolean {
+  const ifRange = req.headers.get("If-Range");
+
+  if (!ifRange) {
+    return true;
+  }
+
+  if (ifRange.includes('"')) {
+    const etag = res.get("ETag");
+    return etag !== null && !etag.startsWith("W/") && ifRange.trim() === etag;
+  }
+
+  const lastModified = Date.parse(res.get("Last-Modified") ?? "");
+  return !Number.isNaN(lastModified) && lastModified <= Date.parse(ifRange);
+}
+
+/**
+ * Parses a single-range Range header. Multi-range requests are answered with
+ * the full file.
+ * @param {string} header - The Range header value
+ * @param {number} size - The file size in bytes
+ * @returns {ByteRange | null | false} The range, null to send the full file,
+ * or false if the range cannot be satisfied
+ */
+function parseRange(header: string, size: number): ByteRange | null | false {
+  const match = /^bytes=\s*(\d*)\s*-\s*(\d*)\s*$/i.exec(header);
+
+  if (!match || (match[1] === "" && match[2] === "")) {
+    return null;
+  }
+
+  let start: number;
+  let end: number;
+
+  if (match[1] === "") {
+    start = Math.max(size - Number(match[2]), 0);
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] === "" ? size - 1 : Math.min(Number(match[2]), size - 1);
+  }
+
+  if (start > end || start >= size) {
+    return false;
+  }
+
+  return { start, end };
+}
+
+/**
+ * Creates a stream over a byte range of a file. The file is opened on the
+ * first read, so a stream that is never consumed never opens it.
+ * @param {string} path - The file path
+ * @param {number} start - The first byte to read
+ * @param {number} end - The last byte to read (inclusive)
+ * @returns {ReadableStream<Uint8Array>} The file stream
+ */
+function createFileStream(
+  path: string,
+  start: number,
+  end: number
+): ReadableStream<Uint8Array> {
+  let file: Deno.FsFile | undefined;
+  let remaining = end - start + 1;
+
+  const close = () => {
+    file?.close();
+    file = undefined;
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        if (!file) {
+          file = await Deno.open(path, { read: true });
+          await file.seek(start, Deno.SeekMode.Start);
+        }
+
+        const buffer = new Uint8Array(Math.min(CHUNK_SIZE, remaining));
+        const read = remaining > 0 ? await file.read(buffer) : null;
+
+        if (read === null) {
+          close();
+          controller.close();
+          return;
+        }
+
+        remaining -= read;
+        controller.enqueue(buffer.subarray(0, read));
+      } catch (err) {
+        close();
+        controller.error(err);
+      }
+    },
+    cancel() {
+      close();
+    },
+  });
+}
+
+/**
+ * Gets file information, returning null if the path does not exist
+ * @param {string} path - The file path
+ * @returns {Promise<Deno.FileInfo | null>} The file information, or null
+ */
+async function statFile(path: string): Promise<Deno.FileInfo | null> {
+  try {
+    return await Deno.stat(path);
+  } catch (err) {
+    if (err instanceof Deno.errors.NotFound) {
+      return null;
+    }
+    if (err instanceof Deno.errors.NotADirectory) {
+      return null;
+    }
+    throw err;
+  }
+}
+
+/**
+ * Creates a middleware that serves files from a root directory
+ * @param {string} root - The directory to serve files from
+ * @param {StaticOptions} [options={}] - Optional configuration options
+ * @returns {RouteHandler} The static file middleware
+ */
+export function serveStatic(
+  root: string,
+  options: StaticOptions = {}
+): RouteHandler {
+  const {
+    index = "index.html",
+    dotfiles = "ignore",
+    etag = true,
+    lastModified = true,
+    maxAge = 0,
+    immutable = false,
+    acceptRanges = true,
+    redirect = true,
+    fallthrough = true,
+    fallback,
+    setHeaders,
+  } = options;
+
+  const rootDir = root.replace(/\/+$/, "");
+  const indexFiles = index === false ? [] : [index].flat();
+  const maxAgeSeconds = Math.floor(parseDuration(maxAge) / 1000);
+
+  /**
+   * Sends a file, answering conditional and range requests
+   * @param {RequestContext} req - The incoming request context
+   * @param {ResponseContext} res - The response context
+   * @param {string} path - The file path
+   * @param {Deno.FileInfo} stat - The file information
+   */
+  const sendFile = async (
+    req: RequestContext,
+    res: ResponseContext,
+    path: string,
+    stat: Deno.FileInfo
+  ): Promise<void> => {
+    if (acceptRanges) {
+      res.set("Accept-Ranges", "bytes");
+    }
+    if (!res.get("Cache-Control")) {
+      res.set(
+        "Cache-Control",
+        `public, max-age=${maxAgeSeconds}${immutable ? ", immutable" : ""}`
+      );
+    }
+    if (lastModified && stat.mtime) {
+      res.set("Last-Modified", stat.mtime.toUTCString());
+    }
+    if (etag) {
+      res.set("ETag", weakEtag(stat));
+    }
+    if (!res.get("Content-Type")) {
+      res.type(lookupType(path) ?? "application/octet-stream");
+    }
+
+    setHeaders?.(res, path, stat);
+
+    if (isFresh(req.headers, res.headers)) {
+      await res.status(304).send();
+      return;
+    }
+
+    let start = 0;
+    let end = stat.size - 1;
+    const rangeHeader = req.headers.get("Range");
+
+    if (acceptRanges && rangeHeader && isRangeFresh(req, res)) {
+      const range = parseRange(rangeHeader, stat.size);
+
+      if (range === false) {
+        res.set("Content-Range", `bytes */${stat.size}`);
+        await res.status(416).send();
+        return;
+      }
+
+      if (range) {
+        ({ start, end } = range);
+        res.status(206);
+        res.set("Content-Range", `bytes ${start}-${end}/${stat.size}`);
+      }
+    }
+
+    res.set("Content-Length", String(Math.max(end - start + 1, 0)));
+    await res.send(createFileStream(path, start, end));
+  };
+
+  return async function serveStaticMiddleware(
+    req: RequestContext,
+    res: ResponseContext,
+    next?: NextFunction
+  ): Promise<void> {
+    const fail = (status: number) => {
+      if (fallthrough) {
+        next?.();
+      } else {
+        next?.(new HttpError(status));
+      }
+    };
+
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      if (fallthrough) {
+        next?.();
+        return;
+      }
+      res.set("Allow", "GET, HEAD");
+      await res.status(405).send();
+      return;
+    }
+
+    let pathname: string;
+
+    try {
+      pathname = decodeURIComponent(req.path);
+    } catch {
+      fail(400);
+      return;
+    }
+
+    if (pathname.includes("\0")) {
+      fail(400);
+      return;
+    }
+
+    const segments = pathname.split(/[\\/]/).filter(Boolean);
+
+    if (segments.includes("..")) {
+      fail(403);
+      return;
+    }
+
+    if (dotfiles !== "allow" && segments.some((s) => s.startsWith("."))) {
+      fail(dotfiles === "deny" ? 403 : 404);
+      return;
+    }
+
+    const filePath = [rootDir, ...segments].join("/");
+    let stat = await statFile(filePath);
+
+    if (stat?.isDirectory) {
+      if (redirect && !pathname.endsWith("/")) {
+        const [path, search = ""] = req.originalUrl.split(/(?=\?)/);
+        await res.redirect(301, `${path}/${search}`);
+        return;
+      }
+
+      for (const file of indexFiles) {
+        const indexPath = `${filePath}/${file}`;
+        const indexStat = await statFile(indexPath);
+
+        if (indexStat?.isFile) {
+          await sendFile(req, res, indexPath, indexStat);
+          return;
+        }
+      }
+
+      stat = null;
+    }
+
+    if (stat?.isFile) {
+      await sendFile(req, res, filePath, stat);
+      return;
+    }
+
+    if (fallback && req.accepts("html")) {
+      const fallbackPath = `${rootDir}/${fallback.replace(/^\/+/, "")}`;
+      const fallbackStat = await statFile(fallbackPath);
+
+      if (fallbackStat?.isFile) {
+        await sendFile(req, res, fallbackPath, fallbackStat);
+        return;
+      }
+    }
+
+    fail(404);
+  };
+}
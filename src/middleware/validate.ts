@@ -0,0 +1,188 @@
+/**
+ * @file validate.ts
+ * @description Request validation middleware for the framework. Validates
+ * params, query, headers and body against schemas built with `v` or any
+ * Standard Schema library, replaces them with the coerced values and narrows
+ * the request type of the handlers that follow.
+ * @author Sriram Sundar
+ */
+
+import {
+  RequestContext,
+  ResponseContext,
+  RouteHandler,
+  RouteParams,
+} from "../core/app.ts";
+import { ValidationError, ValidationIssue } from "../core/errors.ts";
+import { NextFunction } from "../router/router.ts";
+import { ParsedQuery } from "../utils/query.ts";
+import { InferOutput, StandardSchemaV1 } from "../validation/standard.ts";
+
+/**
+ * Schemas for the parts of a request. Header names are lowercase.
+ */
+export interface ValidationSchemas {
+  /** Schema for the route params */
+  params?: StandardSchemaV1;
+  /** Schema for the parsed query string */
+  query?: StandardSchemaV1;
+  /** Schema for the headers, as an object of lowercase names to values */
+  headers?: StandardSchemaV1;
+  /** Schema for the body parsed by a body parser */
+  body?: StandardSchemaV1;
+}
+
+/**
+ * The output of a part's schema, or a fallback when it has none
+ */
+type OutputOf<S, Fallback> = S extends StandardSchemaV1
+  ? InferOutput<S>
+  : Fallback;
+
+/**
+ * The validated values of each part of a request
+ */
+export interface ValidatedInput<S extends ValidationSchemas> {
+  /** The validated route params */
+  params: OutputOf<S["params"], RouteParams>;
+  /** The validated query */
+  query: OutputOf<S["query"], ParsedQuery>;
+  /** The validated headers */
+  headers: OutputOf<S["headers"], Record<string, string>>;
+  /** The validated body */
+  body: OutputOf<S["body"], unknown>;
+}
+
+/**
+ * A request after validation: params, query and body hold the validated
+ * values, and `validated` holds every validated part including headers
+ */
+export type ValidatedRequest<
+  P extends RouteParams,
+  S extends ValidationSchemas
+> = Omit<RequestContext<P>, "params" | "query" | "body"> & {
+  /** The route params, with validated params replacing path params */
+  params: Omit<P, keyof ValidatedInput<S>["params"]> &
+    ValidatedInput<S>["params"];
+  /** The validated query */
+  query: ValidatedInput<S>["query"];
+  /** The validated body */
+  body: ValidatedInput<S>["body"];
+  /** The validated values of each part */
+  validated: ValidatedInput<S>;
+};
+
+/**
+ * A handler that runs after validate() and sees the validated request
+ */
+export type ValidatedHandler<
+  P extends RouteParams,
+  S extends ValidationSchemas
+> = (
+  req: ValidatedRequest<P, S>,
+  res: ResponseContext,
+  next?: NextFunction
+) => Promise<void> | void;
+
+/**
+ * The middleware returned by validate(), carrying its schemas so route
+ * methods can narrow the handlers that follow it
+ */
+export interface ValidationMiddleware<S extends ValidationSchemas>
+  extends RouteHandler {
+  /** The schemas the middleware validates against */
+  readonly schemas: S;
+}
+
+/**
+ * The parts of a request, in the order they are validated
+ */
+const PARTS = ["params", "query", "headers", "body"] as const;
+
+/**
+ * Gets the value of a request part for validation
+ * @param {RequestContext} req - The request
+ * @param {string} part - The part
+ * @returns {unknown} The value; the body is undefined until a body parser has run
+ */
+function readPart(req: RequestContext, part: (typeof PARTS)[number]): unknown {
+  switch (part) {
+    case "headers":
+      return Object.fromEntries(req.headers);
+    case "body":
+      return req.body instanceof ReadableStream ? undefined : req.body;
+    default:
+      return req[part];
+  }
+}
+
+/**
+ * Creates middleware that validates the request against schemas. Invalid
+ * requests are passed to the error handlers as a ValidationError listing
+ * every issue. Valid values replace req.params, req.query and req.body, and
+ * all validated parts are available as req.validated. Register it before
+ * the handlers that use the values, after any body parser.
+ * @param {ValidationSchemas} schemas - Schemas for the parts to validate
+ * @returns {ValidationMiddleware} The middleware function
+ */
+export function validate<S extends ValidationSchemas>(
+  schemas: S
+): ValidationMiddleware<S> {
+  const middleware: RouteHandler = async function validateRequest(
+    req,
+    _res,
+    next
+  ) {
+    const issues: ValidationIssue[] = [];
+    const validated: Record<string, unknown> = {};
+
+    for (const part of PARTS) {
+      const schema = schemas[part];
+      if (!schema) {
+        validated[part] = readPart(req, part);
+        continue;
+      }
+
+      const result = await schema["~standard"].validate(readPart(req, part));
+      if (!result.issues) {
+        validated[part] = result.value;
+        continue;
+      }
+
+      result.issues.forEach((issue) =>
+        issues.push({
+          location: part,
+          path: (issue.path ?? []).map((segment) => {
+            const key = typeof segment === "object" ? segment.key : segment;
+            return typeof key === "number" ? key : String(key);
+          }),
+          message: issue.message,
+        })
+      );
+    }
+
+    if (issues.length > 0) {
+      next?.(new ValidationError(issues));
+      return;
+    }
+
+    const request = req as RequestContext & { validated: unknown };
+    request.params = { ...req.params, ...(validated.params as RouteParams) };
+    request.query = validated.query as ParsedQuery;
+    request.validated = validated;
+
+    if (schemas.body) {
+      // Shadows the Web Request body getter when no body parser has run
+      Object.defineProperty(req, "body", {
+        value: validated.body,
+        writable: true,
+        enumerable: true,
+        configurable: true,
+      });
+    }
+
+    next?.();
+  };
+
+  return Object.assign(middleware, { schemas });
+}
@@ -0,0 +1,79 @@
+/**
+ * @file describe.ts
+ * @description Route metadata for API documentation. describeRoute() adds a
+ * summary, tags, responses and security requirements to a route; together
+ * with the schemas of validate() they describe the route's operation in the
+ * generated OpenAPI document.
+ * @author Sriram Sundar
+ */
+
+import { RouteHandler } from "../core/app.ts";
+import { ValidationSchemas } from "../middleware/validate.ts";
+import { StandardSchemaV1 } from "../validation/standard.ts";
+
+/**
+ * A documented response of a route
+ */
+export interface ResponseMeta {
+  /** Describes the response (defaults to the status text) */
+  description?: string;
+  /** Schema for the response body */
+  schema?: StandardSchemaV1;
+  /** Media type of the response body (defaults to "application/json") */
+  contentType?: string;
+}
+
+/**
+ * Metadata describing a route's operation
+ */
+export interface RouteMeta {
+  /** Short summary of what the operation does */
+  summary?: string;
+  /** Longer description, may use Markdown */
+  description?: string;
+  /** Tags grouping the operation in the documentation */
+  tags?: string[];
+  /** Unique operation identifier */
+  operationId?: string;
+  /** Whether the operation is deprecated */
+  deprecated?: boolean;
+  /** Security requirements, e.g. `[{ bearerAuth: [] }]`; `[]` makes it public */
+  security?: Array<Record<string, string[]>>;
+  /** Documented responses by status code, e.g. `{ 200: { schema } }` */
+  responses?: Record<number | string, ResponseMeta>;
+  /** Leaves the operation out of the generated document */
+  hidden?: boolean;
+}
+
+/**
+ * The documentation collected for one method of a route
+ */
+export interface RouteDocs {
+  /** Metadata from describeRoute() handlers */
+  meta: RouteMeta;
+  /** Schemas from validate() handlers */
+  schemas: ValidationSchemas;
+}
+
+/**
+ * The middleware returned by describeRoute(), carrying its metadata so
+ * routes can collect it
+ */
+export interface DescribedMiddleware extends RouteHandler {
+  /** The metadata describing the route */
+  readonly meta: RouteMeta;
+}
+
+/**
+ * Creates middleware that documents the route it is registered on. It only
+ * calls next; the metadata is read when the OpenAPI document is generated.
+ * @param {RouteMeta} meta - Metadata describing the route
+ * @returns {DescribedMiddleware} The middleware function
+ */
+export function describeRoute(meta: RouteMeta): DescribedMiddleware {
+  const middleware: RouteHandler = function describedRoute(_req, _res, next) {
+    next?.();
+  };
+
+  return Object.assign(middleware, { meta });
+}
@@ -0,0 +1,284 @@
+/**
+ * @file docs.ts
+ * @description Serves the app's OpenAPI document and a documentation page
+ * for it. The page is self-contained, with no scripts or styles loaded from
+ * elsewhere, so it works offline.
+ * @author Sriram Sundar
+ */
+
+import { App, RouteHandler } from "../core/app.ts";
+import { escapeHtml } from "../utils/html.ts";
+import { OpenApiOptions } from "./openapi.ts";
+
+/**
+ * Configuration options for the documentation route
+ */
+export interface OpenApiDocsOptions extends OpenApiOptions {
+  /** Title of the documentation page (defaults to the info title) */
+  title?: string;
+  /** Path of the document below the mount path (defaults to "/openapi.json") */
+  specPath?: string;
+}
+
+/**
+ * Renders the documentation page, which fetches the document and renders
+ * its operations grouped by tag, with a form to try each one
+ * @param {string} title - The page title
+ * @param {string} specUrl - The URL of the OpenAPI document
+ * @returns {string} The HTML page
+ */
+function renderPage(title: string, specUrl: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font: 15px/1.5 system-ui, sans-serif; margin: 0; color: #1f2328; background: #f6f8fa; }
+  header { background: #24292f; color: #fff; padding: 1.5rem 2rem; }
+  header h1 { margin: 0; font-size: 1.6rem; }
+  header p { margin: .25rem 0 0; opacity: .8; }
+  main { max-width: 960px; margin: 0 auto; padding: 1rem 2rem 3rem; }
+  #filter { width: 100%; box-sizing: border-box; padding: .5rem .75rem; font: inherit; border: 1px solid #d0d7de; border-radius: 6px; }
+  h2 { margin: 2rem 0 .25rem; font-size: 1.2rem; }
+  details { background: #fff; border: 1px solid #d0d7de; border-radius: 6px; margin: .5rem 0; }
+  details.deprecated summary { opacity: .6; text-decoration: line-through; }
+  summary { cursor: pointer; padding: .5rem .75rem; display: flex; gap: .75rem; align-items: center; }
+  .method { font: bold 12px monospace; text-transform: uppercase; color: #fff; border-radius: 4px; padding: .2rem .5rem; min-width: 4rem; text-align: center; }
+  .get { background: #0969da; } .post { background: #1a7f37; } .put { background: #9a6700; }
+  .patch { background: #8250df; } .delete { background: #cf222e; } .head, .options { background: #57606a; }
+  .path { font-family: monospace; font-weight: 600; }
+  .summary { color: #57606a; }
+  .body { padding: 0 1rem 1rem; border-top: 1px solid #d0d7de; }
+  h3 { font-size: .95rem; margin: 1rem 0 .4rem; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; padding: .3rem .5rem; border-bottom: 1px solid #eaeef2; vertical-align: top; }
+  pre { background: #f6f8fa; border-radius: 6px; padding: .75rem; overflow: auto; margin: .25rem 0; font-size: 13px; }
+  input, textarea { font: 13px monospace; padding: .3rem; border: 1px solid #d0d7de; border-radius: 4px; width: 100%; box-sizing: border-box; }
+  button { font: inherit; padding: .35rem 1rem; border: 0; border-radius: 6px; background: #1f883d; color: #fff; cursor: pointer; margin-top: .5rem; }
+  .required { color: #cf222e; }
+  .error { color: #cf222e; }
+</style>
+</head>
+<body>
+<header><h1 id="title">${escapeHtml(title)}</h1><p id="info"></p></header>
+<main>
+<input id="filter" type="search" placeholder="Filter operations">
+<div id="operations"><p>Loading…</p></div>
+</main>
+<script>
+const SPEC_URL = ${JSON.stringify(specUrl).replace(/</g, "\\u003c")};
+
+function h(tag, attrs, ...children) {
+  const el = document.createElement(tag);
+  for (const [key, value] of Object.entries(attrs || {})) {
+    if (key.startsWith("on")) el.addEventListener(key.slice(2), value);
+    else el.setAttribute(key, value);
+  }
+  for (const child of children.flat()) {
+    if (child !== null && child !== undefined && child !== false) {
+      el.append(child instanceof Node ? child : String(child));
+    }
+  }
+  return el;
+}
+
+function json(value) {
+  return h("pre", {}, JSON.stringify(value, null, 2));
+}
+
+function renderParameters(parameters) {
+  return [
+    h("h3", {}, "Parameters"),
+    h("table", {},
+      h("tr", {}, h("th", {}, "Name"), h("th", {}, "In"), h("th", {}, "Schema"), h("th", {}, "Description")),
+      parameters.map((p) => h("tr", {},
+        h("td", {}, h("code", {}, p.name), p.required ? h("span", { class: "required" }, " *") : null),
+        h("td", {}, p.in),
+        h("td", {}, h("code", {}, JSON.stringify(p.schema || {}))),
+        h("td", {}, p.description || "")
+      ))
+    ),
+  ];
+}
+
+function renderResponses(responses) {
+  return [
+    h("h3", {}, "Responses"),
+    h("table", {},
+      Object.entries(responses).map(([status, response]) => h("tr", {},
+        h("td", {}, h("code", {}, status)),
+        h("td", {},
+          response.description || "",
+          Object.entries(response.content || {}).map(([type, media]) =>
+            [h("div", {}, h("code", {}, type)), json(media.schema || {})]
+          )
+        )
+      ))
+    ),
+  ];
+}
+
+function renderTryIt(server, path, method, operation) {
+  const parameters = operation.parameters || [];
+  const inputs = new Map();
+  const output = h("div");
+  const body = operation.requestBody
+    ? h("textarea", { rows: 6, placeholder: "JSON body" })
+    : null;
+
+  async function send() {
+    let url = path;
+    const query = new URLSearchParams();
+    const headers = {};
+    for (const p of parameters) {
+      const value = inputs.get(p.in + ":" + p.name).value;
+      if (value === "") continue;
+      if (p.in === "path") url = url.replace("{" + p.name + "}", encodeURIComponent(value));
+      else if (p.in === "query") query.append(p.name, value);
+      else if (p.in === "header") headers[p.name] = value;
+    }
+    if (body && body.value.trim() !== "") headers["Content-Type"] = "application/json";
+    const search = query.toString();
+    output.replaceChildren(h("p", {}, "Sending…"));
+    try {
+      const started = performance.now();
+      const response = await fetch(server + url + (search ? "?" + search : ""), {
+        method: method.toUpperCase(),
+        headers,
+        body: body && body.value.trim() !== "" ? body.value : undefined,
+      });
+      const text = await response.text();
+      let shown = text;
+      try { shown = JSON.stringify(JSON.parse(text), null, 2); } catch {}
+      output.replaceChildren(
+        h("p", {}, h("strong", {}, response.status + " " + response.statusText),
+          " in " + Math.round(performance.now() - started) + " ms"),
+        h("pre", {}, shown)
+      );
+    } catch (err) {
+      output.replaceChildren(h("p", { class: "error" }, String(err)));
+    }
+  }
+
+  return [
+    h("h3", {}, "Try it"),
+    parameters.map((p) => {
+      const input = h("input", { placeholder: p.in + " " + p.name });
+      inputs.set(p.in + ":" + p.name, input);
+      return input;
+    }),
+    body,
+    h("button", { onclick: send }, "Send"),
+    output,
+  ];
+}
+
+function renderOperation(server, path, method, operation) {
+  const body = h("div", { class: "body" },
+    operation.description ? h("p", {}, operation.description) : null,
+    operation.parameters ? renderParameters(operation.parameters) : null,
+    operation.requestBody
+      ? [h("h3", {}, "Request body"), Object.entries(operation.requestBody.content || {}).map(([type, media]) =>
+          [h("div", {}, h("code", {}, type)), json(media.schema || {})])]
+      : null,
+    renderResponses(operation.responses || {}),
+    operation.security ? [h("h3", {}, "Security"), json(operation.security)] : null,
+    renderTryIt(server, path, method, operation)
+  );
+  return h("details", {
+      class: operation.deprecated ? "deprecated" : "",
+      "data-search": (method + " " + path + " " + (operation.summary || "")).toLowerCase(),
+    },
+    h("summary", {},
+      h("span", { class: "method " + method }, method),
+      h("span", { class: "path" }, path),
+      h("span", { class: "summary" }, operation.summary || "")
+    ),
+    body
+  );
+}
+
+function render(spec) {
+  const info = spec.info || {};
+  document.getElementById("info").textContent =
+    "Version " + info.version + (info.description ? " — " + info.description : "");
+  const server = ((spec.servers || [])[0] || {}).url || "";
+  const groups = new Map((spec.tags || []).map((tag) => [tag.name, []]));
+  for (const [path, operations] of Object.entries(spec.paths || {})) {
+    for (const [method, operation] of Object.entries(operations)) {
+      const tag = (operation.tags || ["default"])[0];
+      if (!groups.has(tag)) groups.set(tag, []);
+      groups.get(tag).push(renderOperation(server.replace(/\\/$/, ""), path, method, operation));
+    }
+  }
+  const descriptions = new Map((spec.tags || []).map((tag) => [tag.name, tag.description]));
+  document.getElementById("operations").replaceChildren(
+    ...[...groups].filter(([, items]) => items.length > 0).map(([tag, items]) =>
+      h("section", {}, h("h2", {}, tag), descriptions.get(tag) ? h("p", {}, descriptions.get(tag)) : null, items)
+    )
+  );
+}
+
+document.getElementById("filter").addEventListener("input", (event) => {
+  const term = event.target.value.toLowerCase();
+  for (const el of document.querySelectorAll("details")) {
+    el.hidden = term !== "" && !el.dataset.search.includes(term);
+  }
+});
+
+fetch(SPEC_URL)
+  .then((response) => response.json())
+  .then(render)
+  .catch((err) => {
+    document.getElementById("operations").replaceChildren(
+      h("p", { class: "error" }, "Could not load " + SPEC_URL + ": " + err)
+    );
+  });
+</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Creates middleware serving the OpenAPI document of the top-level app and
+ * a documentation page for it. Mount it at a path such as "/docs": the page
+ * is served at the mount path and the document at "/docs/openapi.json".
+ * The document is generated on each request, so it lists routes added later.
+ * @param {OpenApiDocsOptions} [options={}] - Document and page options
+ * @returns {RouteHandler} The middleware function
+ */
+export function openapiDocs(options: OpenApiDocsOptions = {}): RouteHandler {
+  const { title, specPath = "/openapi.json", ...documentOptions } = options;
+
+  return async function openapiDocsMiddleware(req, res, next) {
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      next?.();
+      return;
+    }
+
+    if (req.path === specPath) {
+      let root: App = req.app;
+      while (root.parent) {
+        root = root.parent;
+      }
+
+      await res.json(root.openapi(documentOptions));
+      return;
+    }
+
+    if (req.path === "/") {
+      await res.send(
+        renderPage(
+          title ?? documentOptions.info?.title ?? "API documentation",
+          req.baseUrl + specPath
+        )
+      );
+      return;
+    }
+
+    next?.();
+  };
+}
@@ -0,0 +1,318 @@
+/**
+ * @file openapi.ts
+ * @description Generates an OpenAPI 3.1 document from a router's routes,
+ * including routers and apps mounted on it. Paths, parameters and request
+ * bodies come from the route paths and validate() schemas; summaries, tags,
+ * responses and security from describeRoute().
+ * @author Sriram Sundar
+ */
+
+import STATUS_TEXT from "../core/status.ts";
+import { formatPath, PathKey } from "../router/path.ts";
+import { walkRoutes } from "../router/inspect.ts";
+import { Router } from "../router/router.ts";
+import { isOptional, toJsonSchema } from "../validation/schema.ts";
+import { JsonSchema, StandardSchemaV1 } from "../validation/standard.ts";
+import { RouteDocs } from "./describe.ts";
+
+/**
+ * A loosely typed OpenAPI object, such as an operation or a security scheme
+ */
+export type OpenApiObject = Record<string, unknown>;
+
+/**
+ * Options for the generated document
+ */
+export interface OpenApiOptions {
+  /** API title, version and other info (defaults to "API" version "1.0.0") */
+  info?: { title?: string; version?: string } & OpenApiObject;
+  /** Servers the API is available at, e.g. `[{ url: "/api" }]` */
+  servers?: OpenApiObject[];
+  /** Tag descriptions, in display order */
+  tags?: Array<{ name: string; description?: string }>;
+  /** Security schemes by name, e.g. `{ bearerAuth: { type: "http", scheme: "bearer" } }` */
+  securitySchemes?: Record<string, OpenApiObject>;
+  /** Security requirements applied to every operation */
+  security?: Array<Record<string, string[]>>;
+}
+
+/**
+ * An OpenAPI 3.1 document
+ */
+export interface OpenApiDocument {
+  openapi: "3.1.0";
+  info: { title: string; version: string } & OpenApiObject;
+  servers?: OpenApiObject[];
+  tags?: Array<{ name: string; description?: string }>;
+  paths: Record<string, Record<string, OpenApiObject>>;
+  components?: OpenApiObject;
+  security?: Array<Record<string, string[]>>;
+}
+
+/**
+ * Header parameters OpenAPI describes elsewhere and ignores as parameters
+ */
+const RESERVED_HEADERS = ["accept", "authorization", "content-type"];
+
+/**
+ * The body of the error handler's response to a ValidationError, added to
+ * the document's components when a route validates requests
+ */
+const VALIDATION_ERROR_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    error: {
+      type: "object",
+      properties: {
+        status: { type: "integer" },
+        message: { type: "string" },
+        issues: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              location: {
+                type: "string",
+                enum: ["params", "query", "headers", "body"],
+              },
+              path: {
+                type: "array",
+                items: { type: ["string", "integer"] },
+              },
+              message: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Gets the property schemas and required keys of an object schema
+ * @param {StandardSchemaV1} [schema] - The object schema
+ * @returns {Object} The properties and the required property names
+ */
+function objectProperties(schema?: StandardSchemaV1): {
+  properties: Record<string, JsonSchema>;
+  required: string[];
+} {
+  const json = schema ? toJsonSchema(schema) : {};
+
+  return {
+    properties: (json.properties ?? {}) as Record<string, JsonSchema>,
+    required: (json.required ?? []) as string[],
+  };
+}
+
+/**
+ * Describes a parameter
+ * @param {string} name - The parameter name
+ * @param {string} location - Where the parameter is: path, query or header
+ * @param {boolean} required - Whether the parameter must be present
+ * @param {JsonSchema} schema - The parameter's schema
+ * @returns {OpenApiObject} The parameter object
+ */
+function parameter(
+  name: string,
+  location: "path" | "query" | "header",
+  required: boolean,
+  schema: JsonSchema
+): OpenApiObject {
+  const { description, ...rest } = schema;
+
+  return description === undefined
+    ? { name, in: location, required, schema: rest }
+    : { name, in: location, required, description, schema: rest };
+}
+
+/**
+ * Describes the parameters of an operation
+ * @param {PathKey[]} keys - The parameters in the route path
+ * @param {RouteDocs} docs - The route's documentation
+ * @returns {OpenApiObject[]} The parameter objects
+ */
+function describeParameters(keys: PathKey[], docs: RouteDocs): OpenApiObject[] {
+  const params = objectProperties(docs.schemas.params);
+  const query = objectProperties(docs.schemas.query);
+  const headers = objectProperties(docs.schemas.headers);
+
+  return [
+    // Path parameters are always required in OpenAPI
+    ...keys.map((key) =>
+      parameter(
+        key.name,
+        "path",
+        true,
+        params.properties[key.name] ?? { type: "string" }
+      )
+    ),
+    ...Object.entries(query.properties).map(([name, schema]) =>
+      parameter(name, "query", query.required.includes(name), schema)
+    ),
+    ...Object.entries(headers.properties)
+      .filter(([name]) => !RESERVED_HEADERS.includes(name.toLowerCase()))
+      .map(([name, schema]) =>
+        parameter(name, "header", headers.required.includes(name), schema)
+      ),
+  ];
+}
+
+/**
+ * Describes the responses of an operation, adding the error response of
+ * validate() when the route validates requests
+ * @param {RouteDocs} docs - The route's documentation
+ * @returns {Record<string, OpenApiObject>} The response objects by status
+ */
+function describeResponses(docs: RouteDocs): Record<string, OpenApiObject> {
+  const responses: Record<string, OpenApiObject> = {};
+
+  for (const [status, response] of Object.entries(
+    docs.meta.responses ?? { 200: {} }
+  )) {
+    const description =
+      response.description ?? STATUS_TEXT[Number(status)] ?? "Response";
+
+    responses[status] = response.schema
+      ? {
+          description,
+          content: {
+            [response.contentType ?? "application/json"]: {
+              schema: toJsonSchema(response.schema, "output"),
+            },
+          },
+        }
+      : { description };
+  }
+
+  if (Object.keys(docs.schemas).length > 0 && !responses["400"]) {
+    responses["400"] = {
+      description: "Validation failed",
+      content: {
+        "application/json": {
+          schema: { $ref: "#/components/schemas/ValidationError" },
+        },
+      },
+    };
+  }
+
+  return responses;
+}
+
+/**
+ * Describes one method of a route as an operation
+ * @param {PathKey[]} keys - The parameters in the route path
+ * @param {RouteDocs} docs - The route's documentation
+ * @returns {OpenApiObject} The operation object
+ */
+function describeOperation(keys: PathKey[], docs: RouteDocs): OpenApiObject {
+  const { meta, schemas } = docs;
+  const operation: OpenApiObject = {};
+
+  for (const field of [
+    "summary",
+    "description",
+    "operationId",
+    "tags",
+    "deprecated",
+  ] as const) {
+    if (meta[field] !== undefined) {
+      operation[field] = meta[field];
+    }
+  }
+
+  const parameters = describeParameters(keys, docs);
+  if (parameters.length > 0) {
+    operation.parameters = parameters;
+  }
+
+  if (schemas.body) {
+    operation.requestBody = {
+      required: !isOptional(schemas.body),
+      content: { "application/json": { schema: toJsonSchema(schemas.body) } },
+    };
+  }
+
+  operation.responses = describeResponses(docs);
+
+  if (meta.security) {
+    operation.security = meta.security;
+  }
+
+  return operation;
+}
+
+/**
+ * Generates an OpenAPI 3.1 document describing a router's routes. Route
+ * params become `{param}` path templates and wildcards `{0}`, `{1}`, …;
+ * WebSocket routes and routes whose describeRoute() metadata sets hidden
+ * are left out.
+ * @param {Router} router - The router to describe
+ * @param {OpenApiOptions} [options={}] - Document info, servers and security
+ * @returns {OpenApiDocument} The OpenAPI document
+ */
+export function generateOpenApi(
+  router: Router,
+  options: OpenApiOptions = {}
+): OpenApiDocument {
+  const paths: OpenApiDocument["paths"] = {};
+  let validates = false;
+
+  walkRoutes(router, (route, { path }) => {
+    // OpenAPI has no operations for WebSocket upgrades
+    if (route.websocket) {
+      return;
+    }
+
+    const keys: PathKey[] = [];
+    const template = formatPath(path, (key) => {
+      keys.push(key);
+      return `{${key.name}}`;
+    });
+
+    for (const [method, docs] of Object.entries(route.docs)) {
+      const operations = (paths[template] ??= {});
+
+      // The first route registered for a method is the one requests reach
+      if (docs.meta.hidden || operations[method]) {
+        continue;
+      }
+
+      operations[method] = describeOperation(keys, docs);
+      validates ||= Object.keys(docs.schemas).length > 0;
+    }
+
+    if (Object.keys(paths[template] ?? {}).length === 0) {
+      delete paths[template];
+    }
+  });
+
+  const document: OpenApiDocument = {
+    openapi: "3.1.0",
+    info: { title: "API", version: "1.0.0", ...options.info },
+    paths,
+  };
+
+  if (options.servers) {
+    document.servers = options.servers;
+  }
+  if (options.tags) {
+    document.tags = options.tags;
+  }
+  if (validates) {
+    document.components = {
+      schemas: { ValidationError: VALIDATION_ERROR_SCHEMA },
+    };
+  }
+  if (options.securitySchemes) {
+    document.components = {
+      ...document.components,
+      securitySchemes: options.securitySchemes,
+    };
+  }
+  if (options.security) {
+    document.security = options.security;
+  }
+
+  return document;
+}
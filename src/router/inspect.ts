@@ -0,0 +1,135 @@
+/**
+ * @file inspect.ts
+ * @description Lists the routes registered on a router, including those of
+ * routers and apps mounted on it, with the handlers and middleware each
+ * request to them runs through.
+ * @author Sriram Sundar
+ */
+
+import { Route } from "./route.ts";
+import { Router } from "./router.ts";
+
+/**
+ * A registered route method, as listed by app.routes()
+ */
+export interface RouteInfo {
+  /** The uppercase HTTP method, or "WS" for WebSocket routes */
+  method: string;
+  /** The full path pattern, including mount paths */
+  path: string;
+  /** The path the router or app defining the route is mounted at */
+  mountpath: string;
+  /** Names of the route's handlers for the method, in order */
+  handlers: string[];
+  /** Names of the middleware that runs before the route, in order */
+  middleware: string[];
+}
+
+/**
+ * Where a route sits in the routing tree
+ */
+export interface RouteLocation {
+  /** The full path pattern, including mount paths */
+  path: string;
+  /** The path the router defining the route is mounted at */
+  mountpath: string;
+  /** Names of the middleware registered before the route whose paths cover it */
+  middleware: string[];
+}
+
+/**
+ * Middleware registered before a route, with its full mount path
+ */
+interface MountedMiddleware {
+  /** The middleware name */
+  name: string;
+  /** The full path the middleware is registered at */
+  path: string;
+}
+
+/**
+ * Joins a mount path and a path below it
+ * @param {string} prefix - The mount path
+ * @param {string} path - The path relative to the mount path
+ * @returns {string} The combined path
+ */
+function joinPaths(prefix: string, path: string): string {
+  return prefix.replace(/\/$/, "") + (path === "/" ? "" : path) || "/";
+}
+
+/**
+ * Checks whether middleware registered at a path runs for a route path
+ * @param {string} mount - The middleware's path
+ * @param {string} path - The route path
+ * @returns {boolean} True if the route path is at or below the middleware's path
+ */
+function covers(mount: string, path: string): boolean {
+  return (
+    mount === "/" ||
+    path.toLowerCase() === mount.toLowerCase() ||
+    path.toLowerCase().startsWith(mount.toLowerCase() + "/")
+  );
+}
+
+/**
+ * Calls a visitor for every route of a router and the routers mounted on
+ * it, in the order requests reach them. Error handlers are not counted as
+ * middleware.
+ * @param {Router} router - The router to walk
+ * @param {Function} visit - Receives each route and where it sits
+ * @param {string} [prefix="/"] - The path the router is mounted at
+ * @param {MountedMiddleware[]} [before=[]] - Middleware registered before the router
+ */
+export function walkRoutes(
+  router: Router,
+  visit: (route: Route, location: RouteLocation) => void,
+  prefix = "/",
+  before: MountedMiddleware[] = []
+): void {
+  const middleware = [...before];
+
+  for (const layer of router.stack) {
+    const path = joinPaths(prefix, layer.path);
+
+    if (layer.route) {
+      visit(layer.route, {
+        path,
+        mountpath: prefix,
+        middleware: middleware
+          .filter((entry) => covers(entry.path, path))
+          .map((entry) => entry.name),
+      });
+    } else if (layer.router) {
+      walkRoutes(layer.router, visit, path, middleware);
+    } else if (layer.handle.length <= 3) {
+      middleware.push({ name: layer.name ?? "<anonymous>", path });
+    }
+  }
+}
+
+/**
+ * Lists every route method registered on a router and the routers mounted
+ * on it, in the order requests reach them. WebSocket routes are listed with
+ * the method "WS"
+ * @param {Router} router - The router to list
+ * @returns {RouteInfo[]} One entry per route and method
+ */
+export function listRoutes(router: Router): RouteInfo[] {
+  const routes: RouteInfo[] = [];
+
+  walkRoutes(router, (route, { path, mountpath, middleware }) => {
+    for (const method of Object.keys(route.methods)) {
+      routes.push({
+        method: route.websocket ? "WS" : method.toUpperCase(),
+        path,
+        mountpath,
+        handlers: route.stack
+          .filter((layer) => layer.method === method)
+          .map((layer) => layer.name ?? "<anonymous>"),
+        middleware,
+      });
+    }
+  });
+
+  return routes;
+}
@@ -6,9 +6,15 @@
  * @author Sriram Sundar
  */
 
-import { RouteHandler, ResponseContext } from "../core/app.ts";
+import {
+  ErrorHandler,
+  RouteHandler,
+  RequestContext,
+  ResponseContext,
+} from "../core/app.ts";
 import { Route } from "./route.ts";
-import { NextFunction } from "./router.ts";
+import { NextFunction, Router } from "./router.ts";
+import { compilePath, matchPath, PathKey } from "./path.ts";
 
 /**
  * Layer type definition that represents a handler for a specific path
@@ -18,7 +24,7 @@ export interface Layer {
   path: string;
 
   /** The handler function for this layer */
-  handle: RouteHandler;
+  handle: RouteHandler | ErrorHandler;
 
   /** The HTTP method this layer responds to (if a method handler) */
   method?: string;
@@ -26,43 +32,106 @@ export interface Layer {
   /** The associated Route object (if this is a route path layer) */
   route?: Route;
 
+  /** The router or sub-app router mounted by this layer, if any */
+  router?: Router;
+
   /** Layer name (for middleware identification) */
   name?: string;
 
+  /** The compiled regular expression for the path pattern */
+  regexp: RegExp;
+
+  /** The parameter keys captured by the path pattern */
+  keys: PathKey[];
+
+  /** The parameters captured by the last successful match */
+  params: Record<string, string>;
+
+  /** The portion of the request path consumed by the last successful match */
+  matchedPath: string;
+
   /** Check if this layer matches the given path */
   match: (path: string) => boolean;
 
   /** Handle a request with this layer's handler */
   handleRequest: (
-    req: Request,
+    req: RequestContext,
+    res: ResponseContext,
+    next: NextFunction
+  ) => Promise<void> | void;
+
+  /** Handle a pending error with this layer's handler, if it is an error handler */
+  handleError: (
+    err: unknown,
+    req: RequestContext,
     res: ResponseContext,
     next: NextFunction
   ) => Promise<void> | void;
 }
 
 /**
- * Normalizes a path by ensuring it starts with a / and has no trailing /
+ * Normalizes a path by ensuring it starts with a / and, unless strict,
+ * has no trailing /
  * @param {string} path - The path to normalize
+ * @param {boolean} [strict=false] - Whether to preserve a trailing /
  * @returns {string} The normalized path
  */
-function normalizePath(path: string): string {
+function normalizePath(path: string, strict = false): string {
   if (!path.startsWith("/")) {
     path = "/" + path;
   }
-  if (path.length > 1 && path.endsWith("/")) {
+  if (!strict && path.length > 1 && path.endsWith("/")) {
     path = path.slice(0, -1);
   }
   return path;
 }
 
+/**
+ * Forwards synchronous throws and rejected promises from a handler to next
+ * @param {Function} invoke - Calls the handler and returns its result
+ * @param {NextFunction} next - The next function to receive errors
+ * @returns {Promise<void> | void}
+ */
+function callHandler(
+  invoke: () => Promise<void> | void,
+  next: NextFunction
+): Promise<void> | void {
+  try {
+    const result = invoke();
+    if (result instanceof Promise) {
+      return result.catch((err) => next(err));
+    }
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * Layer configuration options
+ */
+export interface LayerOptions {
+  /** Whether the path must match in full (routes) or as a prefix (middleware) */
+  end?: boolean;
+  /** Whether matching should be case sensitive */
+  caseSensitive?: boolean;
+  /** Whether a trailing slash must match exactly */
+  strict?: boolean;
+}
+
 /**
  * Creates a new layer function for handling route matching and request handling
  * @param {string} path - The path pattern to match
- * @param {RouteHandler} handler - The request handler function
+ * @param {RouteHandler|ErrorHandler} handler - The request or error handler function
+ * @param {LayerOptions} [options={}] - Optional matching options
  * @returns {Layer} The layer object with methods for matching and handling
  */
-export function createLayer(path: string, handler: RouteHandler): Layer {
-  const normalizedPath = normalizePath(path);
+export function createLayer(
+  path: string,
+  handler: RouteHandler | ErrorHandler,
+  options: LayerOptions = {}
+): Layer {
+  const normalizedPath = normalizePath(path, options.strict);
+  const compiled = compilePath(normalizedPath, options);
 
   const handlerName = handler.name || "<anonymous>";
 
@@ -72,6 +141,10 @@ export function createLayer(path: string, handler: RouteHandler): Layer {
     method: undefined,
     route: undefined,
     name: handlerName,
+    regexp: compiled.regexp,
+    keys: compiled.keys,
+    params: {},
+    matchedPath: "",
 
     /**
      * Check if this layer matches the given path
@@ -79,41 +152,62 @@ export function createLayer(path: string, handler: RouteHandler): Layer {
      * @returns {boolean} True if the path matches, false otherwise
      */
     match(requestPath: string): boolean {
-      const normalizedRequestPath = normalizePath(requestPath);
+      const result = matchPath(compiled, requestPath);
 
-      if (this.route === undefined) {
-        return true;
+      if (!result) {
+        this.params = {};
+        this.matchedPath = "";
+        return false;
       }
 
-      if (this.route && this.route.path === normalizedRequestPath) {
-        return true;
-      }
+      this.params = result.params;
+      this.matchedPath = result.path;
+      return true;
+    },
+
+    /**
+     * Handle a request with this layer's handler. Error handlers are skipped.
+     * @param {RequestContext} req - The incoming request context
+     * @param {ResponseContext} res - The response context
+     * @param {NextFunction} next - The next function for middleware chaining
+     * @returns {Promise<void> | void}
+     */
+    handleRequest(
+      req: RequestContext,
+      res: ResponseContext,
+      next: NextFunction
+    ): Promise<void> | void {
+      const fn = this.handle;
 
-      if (this.path === "*") {
-        return true;
+      if (fn.length > 3) {
+        return next();
       }
 
-      return false;
+      return callHandler(() => (fn as RouteHandler)(req, res, next), next);
     },
 
     /**
-     * Handle a request with this layer's handler
-     * @param {Request} req - The incoming request
+     * Handle a pending error with this layer's handler. Non-error handlers
+     * are skipped and the error is passed along.
+     * @param {unknown} err - The pending error
+     * @param {RequestContext} req - The incoming request context
      * @param {ResponseContext} res - The response context
      * @param {NextFunction} next - The next function for middleware chaining
      * @returns {Promise<void> | void}
      */
-    handleRequest(
-      req: Request,
+    handleError(
+      err: unknown,
+      req: RequestContext,
       res: ResponseContext,
       next: NextFunction
     ): Promise<void> | void {
-      try {
-        return this.handle(req, res, next);
-      } catch (err) {
-        console.error("Layer error:", err);
-        throw err;
+      const fn = this.handle;
+
+      if (fn.length !== 4) {
+        return next(err);
       }
+
+      return callHandler(() => (fn as ErrorHandler)(err, req, res, next), next);
     },
   };
 
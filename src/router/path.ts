@@ -0,0 +1,297 @@
+/**
+ * @file path.ts
+ * @description Compiles route path patterns into regular expressions.
+ * Supports named parameters (`:id`), optional parameters (`:id?`),
+ * regex-constrained parameters (`:id(\\d+)`) and wildcards (`*`).
+ * @author Sriram Sundar
+ */
+
+/**
+ * A parameter key extracted from a path pattern
+ */
+export interface PathKey {
+  /** The parameter name, or its index for unnamed wildcards */
+  name: string;
+
+  /** Whether the parameter may be absent from the matched path */
+  optional: boolean;
+}
+
+/**
+ * Options used when compiling a path pattern
+ */
+export interface PathOptions {
+  /** Whether the pattern must match the whole path (false for prefix matching) */
+  end?: boolean;
+  /** Whether matching should be case sensitive */
+  caseSensitive?: boolean;
+  /** Whether a trailing slash must match exactly */
+  strict?: boolean;
+}
+
+/**
+ * The result of compiling a path pattern
+ */
+export interface CompiledPath {
+  /** The regular expression used to match request paths */
+  regexp: RegExp;
+
+  /** The parameter keys in the order they are captured */
+  keys: PathKey[];
+}
+
+/**
+ * The result of matching a request path against a compiled path
+ */
+export interface PathMatch {
+  /** The portion of the request path that matched the pattern */
+  path: string;
+
+  /** The decoded parameter values keyed by parameter name */
+  params: Record<string, string>;
+}
+
+/**
+ * Characters that end a parameter name, checked in order when extracting
+ * parameter names from a path literal at the type level
+ */
+type NameDelimiters = [
+  "/",
+  "-",
+  ".",
+  "(",
+  "?",
+  "*",
+  ":",
+  "~",
+  "+",
+  "@",
+  ",",
+  ";",
+  "=",
+  "!",
+  "&"
+];
+
+/**
+ * Cuts a string at the first occurrence of each delimiter in turn, leaving
+ * the parameter name at the start of the string
+ */
+type CutName<
+  S extends string,
+  D extends string[] = NameDelimiters
+> = D extends [infer First extends string, ...infer Rest extends string[]]
+  ? CutName<S extends `${infer Head}${First}${string}` ? Head : S, Rest>
+  : S;
+
+/**
+ * Removes a leading regex constraint such as `(\\d+)` from a string
+ */
+type SkipConstraint<S extends string> = S extends `(${string})${infer After}`
+  ? After
+  : S;
+
+/**
+ * Collects the parameters of a path literal into an intersection of objects.
+ * Wildcards are numbered in order of appearance, as at runtime.
+ */
+type ParseParams<
+  Path extends string,
+  Wildcards extends unknown[] = []
+> = Path extends `${infer Before}:${infer Rest}`
+  ? Before extends `${string}*${string}`
+    ? ParseWildcard<Path, Wildcards>
+    : CutName<Rest> extends infer Name extends string
+    ? Rest extends `${Name}${infer AfterName}`
+      ? SkipConstraint<AfterName> extends `?${infer Tail}`
+        ? { [K in Name]?: string } & ParseParams<Tail, Wildcards>
+        : { [K in Name]: string } & ParseParams<
+            SkipConstraint<AfterName>,
+            Wildcards
+          >
+      : never
+    : never
+  : ParseWildcard<Path, Wildcards>;
+
+/**
+ * Collects the parameters of a path literal from its first wildcard onwards
+ */
+type ParseWildcard<
+  Path extends string,
+  Wildcards extends unknown[]
+> = Path extends `${string}*${infer Rest}`
+  ? { [K in `${Wildcards["length"]}`]: string } & ParseParams<
+      Rest,
+      [...Wildcards, unknown]
+    >
+  : Record<never, never>;
+
+/**
+ * Infers the params object of a path literal, e.g. `"/users/:id/:tab?"`
+ * becomes `{ id: string; tab?: string }`. Paths that are not literals
+ * fall back to a record of strings.
+ */
+export type PathParams<Path extends string> = string extends Path
+  ? Record<string, string>
+  : {
+      [K in keyof ParseParams<Path>]: ParseParams<Path>[K];
+    } extends infer P extends Record<string, string>
+  ? P
+  : never;
+
+/**
+ * Matches a named parameter with an optional regex constraint and modifier
+ */
+const PARAM_PATTERN = /^:([A-Za-z_$][\w$]*)(\((?:\\.|[^\\()])+\))?(\?)?/;
+
+/**
+ * Escapes characters that have a special meaning in regular expressions
+ * @param {string} str - The string to escape
+ * @returns {string} The escaped string
+ */
+function escapeString(str: string): string {
+  return str.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Decodes a captured parameter value
+ * @param {string} value - The raw captured value
+ * @returns {string} The decoded value, or the raw value if it is malformed
+ */
+function decodeParam(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Compiles a path pattern into a regular expression and its parameter keys
+ * @param {string} path - The path pattern to compile
+ * @param {PathOptions} [options={}] - Optional compile options
+ * @returns {CompiledPath} The compiled regular expression and keys
+ */
+export function compilePath(
+  path: string,
+  options: PathOptions = {}
+): CompiledPath {
+  const { end = true, caseSensitive = false, strict = false } = options;
+  const keys: PathKey[] = [];
+  let pattern = "";
+  let wildcardIndex = 0;
+  let idx = 0;
+
+  while (idx < path.length) {
+    const hasSlash = path[idx] === "/" && path[idx + 1] === ":";
+    const paramStart = hasSlash ? idx + 1 : idx;
+    const param =
+      path[paramStart] === ":"
+        ? PARAM_PATTERN.exec(path.slice(paramStart))
+        : null;
+
+    if (param) {
+      const [token, name, constraint, modifier] = param;
+      const prefix = hasSlash ? "/" : "";
+      const capture = constraint ? `(${constraint.slice(1, -1)})` : "([^/]+?)";
+      const optional = modifier === "?";
+
+      keys.push({ name, optional });
+      pattern += optional ? `(?:${prefix}${capture})?` : `${prefix}${capture}`;
+      idx = paramStart + token.length;
+      continue;
+    }
+
+    if (path[idx] === "*") {
+      keys.push({ name: String(wildcardIndex++), optional: true });
+      pattern += "(.*)";
+      idx++;
+      continue;
+    }
+
+    pattern += escapeString(path[idx]);
+    idx++;
+  }
+
+  if (!strict) {
+    pattern = pattern.replace(/\/$/, "") + "/?";
+  }
+
+  if (end) {
+    pattern += "$";
+  } else if (!pattern.endsWith("/")) {
+    pattern += "(?=\\/|$)";
+  }
+
+  return {
+    regexp: new RegExp(`^${pattern}`, caseSensitive ? "" : "i"),
+    keys,
+  };
+}
+
+/**
+ * Matches a request path against a compiled path
+ * @param {CompiledPath} compiled - The compiled path pattern
+ * @param {string} path - The request path to match
+ * @returns {PathMatch | null} The match result, or null if the path does not match
+ */
+export function matchPath(
+  compiled: CompiledPath,
+  path: string
+): PathMatch | null {
+  const result = compiled.regexp.exec(path);
+
+  if (!result) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+
+  compiled.keys.forEach((key, i) => {
+    const value = result[i + 1];
+    if (value !== undefined) {
+      params[key.name] = decodeParam(value);
+    }
+  });
+
+  return { path: result[0], params };
+}
+
+/**
+ * Rewrites the parameters and wildcards of a path pattern, e.g. to turn
+ * `/users/:id(\\d+)` into `/users/{id}`
+ * @param {string} path - The path pattern
+ * @param {Function} format - Returns the text replacing each parameter key
+ * @returns {string} The rewritten path
+ */
+export function formatPath(
+  path: string,
+  format: (key: PathKey) => string
+): string {
+  let result = "";
+  let wildcardIndex = 0;
+  let idx = 0;
+
+  while (idx < path.length) {
+    const param =
+      path[idx] === ":" ? PARAM_PATTERN.exec(path.slice(idx)) : null;
+
+    if (param) {
+      const [token, name, , modifier] = param;
+      result += format({ name, optional: modifier === "?" });
+      idx += token.length;
+      continue;
+    }
+
+    if (path[idx] === "*") {
+      result += format({ name: String(wildcardIndex++), optional: true });
+      idx++;
+      continue;
+    }
+
+    result += path[idx];
+    idx++;
+  }
+
+  return result;
+}
@@ -5,15 +5,64 @@
  * @author Sriram Sundar
  */
 
-import methods from "../core/methods.ts";
+import { HttpMethod } from "../core/methods.ts";
 import { createLayer, Layer } from "./layer.ts";
-import { RouteHandler, ResponseContext } from "../core/app.ts";
+import {
+  RouteHandler,
+  RouteParams,
+  RequestContext,
+  ResponseContext,
+} from "../core/app.ts";
 import { NextFunction } from "./router.ts";
+import {
+  ValidatedHandler,
+  ValidationMiddleware,
+  ValidationSchemas,
+} from "../middleware/validate.ts";
+import { RouteDocs } from "../openapi/describe.ts";
+import { Logger } from "../utils/logger.ts";
+import { createDebug } from "../utils/debug.ts";
 
 /**
- * Route type definition
+ * Route configuration options
  */
-export interface Route {
+export interface RouteOptions {
+  /** Receives DEBUG traces (defaults to console) */
+  logger?: Logger;
+  /** Called when a handler is added for a method the route did not handle yet */
+  onMethodAdded?: (method: string) => void;
+}
+
+/**
+ * Registers handlers for one HTTP method on a route. Handlers after a
+ * validate() middleware, given first or after one middleware such as a body
+ * parser, see the validated request types.
+ */
+export type RouteVerb<P extends RouteParams> = {
+  <S extends ValidationSchemas>(
+    validator: ValidationMiddleware<S>,
+    ...handlers: ValidatedHandler<P, S>[]
+  ): Route<P>;
+  <S extends ValidationSchemas>(
+    before: RouteHandler<P>,
+    validator: ValidationMiddleware<S>,
+    ...handlers: ValidatedHandler<P, S>[]
+  ): Route<P>;
+  (...handlers: RouteHandler<P>[]): Route<P>;
+};
+
+/**
+ * A handler in a route's chain: a plain handler, or one following validate()
+ */
+export type RouteChainHandler<P extends RouteParams> =
+  | RouteHandler<P>
+  | ValidatedHandler<P, ValidationSchemas>;
+
+/**
+ * Route type definition. `P` is the params object inferred from the path.
+ */
+export interface Route<P extends RouteParams = RouteParams>
+  extends Record<HttpMethod, RouteVerb<P>> {
   /** The route path pattern */
   path: string;
 
@@ -23,52 +72,102 @@ export interface Route {
   /** Map of HTTP methods supported by this route */
   methods: Record<string, boolean>;
 
+  /** Documentation from describeRoute() and validate() handlers, by method */
+  docs: Record<string, RouteDocs>;
+
+  /** Whether the route was registered by ws() and only takes upgrade requests */
+  websocket: boolean;
+
+  /** Check whether this route has handlers for a method (HEAD falls back to GET) */
+  handlesMethod: (method: string) => boolean;
+
+  /** List the uppercase HTTP methods this route responds to */
+  allowedMethods: () => string[];
+
   /** Dispatch a request to this route's handlers */
   dispatch: (
-    req: Request,
+    req: RequestContext,
     res: ResponseContext,
     next: NextFunction
   ) => Promise<void> | void;
 
   /** Generic method for adding handlers for a specific HTTP method */
-  addMethod: (method: string, ...handlers: RouteHandler[]) => Route;
-
-  /** Common HTTP method handlers */
-  get: (...handlers: RouteHandler[]) => Route;
-  post: (...handlers: RouteHandler[]) => Route;
-  put: (...handlers: RouteHandler[]) => Route;
-  delete: (...handlers: RouteHandler[]) => Route;
-  patch: (...handlers: RouteHandler[]) => Route;
-  head: (...handlers: RouteHandler[]) => Route;
-  options: (...handlers: RouteHandler[]) => Route;
-
-  /** Handlers for uncommon HTTP methods */
-  [key: string]: unknown;
+  addMethod: (method: string, ...handlers: RouteChainHandler<P>[]) => Route<P>;
+
+  /** HTTP method handlers, one for each entry in core/methods.ts */
+  get: RouteVerb<P>;
+  post: RouteVerb<P>;
+  put: RouteVerb<P>;
+  delete: RouteVerb<P>;
+  patch: RouteVerb<P>;
+  head: RouteVerb<P>;
+  options: RouteVerb<P>;
 }
 
 /**
- * Creates a new Route for a given path
+ * Creates a new Route for a given path. With DEBUG=express:route, each
+ * handler run and its timing is traced through the logger.
  * @param {string} path - The route path pattern
+ * @param {RouteOptions} [options={}] - Optional configuration options
  * @returns {Route} A route object with HTTP method handlers
  */
-export function createRoute(path: string): Route {
+export function createRoute<P extends RouteParams = RouteParams>(
+  path: string,
+  options: RouteOptions = {}
+): Route<P> {
+  const debug = createDebug("express:route", options.logger);
   const stack: Layer[] = [];
   const methodsMap: Record<string, boolean> = {};
+  const docs: Record<string, RouteDocs> = {};
 
-  const route: Route = {
+  const route: Route<P> = {
     path,
     stack,
     methods: methodsMap,
+    docs,
+    websocket: false,
+
+    /**
+     * Check whether this route has handlers for the given method
+     * @param {string} method - The HTTP method (any case)
+     * @returns {boolean} True if the route can handle the method
+     */
+    handlesMethod(method: string): boolean {
+      const name = method.toLowerCase();
+
+      if (name === "head" && !methodsMap["head"]) {
+        return Boolean(methodsMap["get"]);
+      }
+
+      return Boolean(methodsMap[name]);
+    },
 
     /**
-     * Dispatch a request through all handlers in this route's stack
-     * @param {Request} req - The incoming request
+     * List the HTTP methods this route responds to, including an implicit
+     * HEAD for routes with GET handlers
+     * @returns {string[]} The uppercase method names
+     */
+    allowedMethods(): string[] {
+      const allowed = Object.keys(methodsMap).map((m) => m.toUpperCase());
+
+      if (methodsMap["get"] && !methodsMap["head"]) {
+        allowed.push("HEAD");
+      }
+
+      return allowed;
+    },
+
+    /**
+     * Dispatch a request through the handlers in this route's stack that
+     * match the request method. HEAD requests run the GET handlers when no
+     * HEAD handler is registered. Errors passed to next skip the remaining handlers.
+     * @param {RequestContext} req - The incoming request context
      * @param {ResponseContext} res - The response context
      * @param {NextFunction} parentNext - The parent next function (router level)
      * @returns {Promise<void> | void}
      */
     dispatch(
-      req: Request,
+      req: RequestContext,
       res: ResponseContext,
       parentNext: NextFunction
     ): Promise<void> | void {
@@ -77,82 +176,118 @@ export function createRoute(path: string): Route {
         return;
       }
 
+      let method = req.method.toLowerCase();
       let idx = 0;
+      let running: { layer: Layer; started: number } | undefined;
+
+      if (method === "head" && !methodsMap["head"]) {
+        method = "get";
+      }
+
+      debug("dispatch", req.method, path);
+
+      const next: NextFunction = (err?: unknown) => {
+        if (running) {
+          debug(
+            running.layer.name,
+            err ? "passed an error" : "called next",
+            "after",
+            `${(performance.now() - running.started).toFixed(1)}ms`
+          );
+          running = undefined;
+        }
+
+        if (err) {
+          return parentNext(err);
+        }
 
-      const next = () => {
-        if (idx < stack.length) {
+        while (idx < stack.length) {
           const layer = stack[idx++];
-          try {
+
+          if (layer.method === method) {
+            debug("run", layer.name, "for", method.toUpperCase(), path);
+            if (debug.enabled) {
+              running = { layer, started: performance.now() };
+            }
             return layer.handleRequest(req, res, next);
-          } catch (err) {
-            console.error("Route handler error:", err);
-            throw err;
           }
-        } else {
-          parentNext();
         }
+
+        debug("no more", method.toUpperCase(), "handlers for", path);
+        parentNext();
       };
 
       return next();
     },
 
     /**
-     * Generic method for adding handlers for a specific HTTP method
+     * Generic method for adding handlers for a specific HTTP method. Metadata
+     * and schemas carried by the handlers are collected into docs.
      * @param {string} method - The HTTP method (lowercase)
      * @param {RouteHandler[]} handlers - Handler functions
      * @returns {Route} This route for chaining
      */
-    addMethod(method: string, ...handlers: RouteHandler[]): Route {
+    addMethod(method: string, ...handlers: RouteChainHandler<P>[]): Route<P> {
+      const methodDocs = (docs[method] ??= { meta: {}, schemas: {} });
+
       handlers.forEach((handler) => {
+        if ("meta" in handler) {
+          Object.assign(methodDocs.meta, handler.meta);
+        }
+        if ("schemas" in handler) {
+          Object.assign(methodDocs.schemas, handler.schemas);
+        }
+
         const wrappedHandler: RouteHandler = (req, res, next) => {
-          return handler(req, res, next);
+          return (handler as RouteHandler<P>)(
+            req as RequestContext<P>,
+            res,
+            next
+          );
         };
 
         const layer = createLayer("/", wrappedHandler);
         layer.method = method;
-        methodsMap[method] = true;
+        layer.name = handler.name || "<anonymous>";
         stack.push(layer);
+
+        if (!methodsMap[method]) {
+          methodsMap[method] = true;
+          options.onMethodAdded?.(method);
+        }
       });
 
       return route;
     },
 
-    get(...handlers: RouteHandler[]): Route {
+    get(...handlers: RouteChainHandler<P>[]): Route<P> {
       return route.addMethod("get", ...handlers);
     },
 
-    post(...handlers: RouteHandler[]): Route {
+    post(...handlers: RouteChainHandler<P>[]): Route<P> {
       return route.addMethod("post", ...handlers);
     },
 
-    put(...handlers: RouteHandler[]): Route {
+    put(...handlers: RouteChainHandler<P>[]): Route<P> {
       return route.addMethod("put", ...handlers);
     },
 
-    delete(...handlers: RouteHandler[]): Route {
+    delete(...handlers: RouteChainHandler<P>[]): Route<P> {
       return route.addMethod("delete", ...handlers);
     },
 
-    patch(...handlers: RouteHandler[]): Route {
+    patch(...handlers: RouteChainHandler<P>[]): Route<P> {
       return route.addMethod("patch", ...handlers);
     },
 
-    head(...handlers: RouteHandler[]): Route {
+    head(...handlers: RouteChainHandler<P>[]): Route<P> {
       return route.addMethod("head", ...handlers);
     },
 
-    options(...handlers: RouteHandler[]): Route {
+    options(...handlers: RouteChainHandler<P>[]): Route<P> {
       return route.addMethod("options", ...handlers);
     },
   };
 
-  methods.forEach((method) => {
-    if (!(method in route)) {
-      route[method] = (...handlers: RouteHandler[]): Route => {
-        return route.addMethod(method, ...handlers);
-      };
-    }
-  });
-
   return route;
 }
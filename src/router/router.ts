@@ -5,9 +5,31 @@
  * @author Sriram Sundar
  */
 
-import { ResponseContext, RouteHandler } from "../core/app.ts";
+import {
+  ErrorHandler,
+  RequestContext,
+  ResponseContext,
+  RouteHandler,
+  RouteMethod,
+  RouteParams,
+} from "../core/app.ts";
+import { HttpMethod } from "../core/methods.ts";
+import STATUS_TEXT from "../core/status.ts";
+import { createResponseContext } from "../http/response.ts";
+import {
+  createWebSocketRoute,
+  isUpgradeRequest,
+  WebSocketHandler,
+  WebSocketMethod,
+  WebSocketOptions,
+} from "../http/websocket.ts";
+import { errorHandler } from "../middleware/error.ts";
 import { createRoute, Route } from "./route.ts";
 import { createLayer, Layer } from "./layer.ts";
+import { PathParams } from "./path.ts";
+import { createRouteIndex, RouteIndex } from "./tree.ts";
+import { Logger } from "../utils/logger.ts";
+import { createDebug } from "../utils/debug.ts";
 
 /**
  * Router configuration options
@@ -17,12 +39,17 @@ export interface RouterOptions {
   caseSensitive?: boolean;
   /** Whether routes should match strictly (exact trailing slashes) */
   strict?: boolean;
+  /** Whether to preserve params from the parent router when mounted */
+  mergeParams?: boolean;
+  /** Receives diagnostics such as unparseable URLs and DEBUG traces (defaults to console) */
+  logger?: Logger;
 }
 
 /**
- * Router type definition
+ * Router type definition. `Inherited` types the params a router mounted with
+ * `mergeParams` receives from its parent, e.g. `Router<{ id: string }>`.
  */
-export interface Router {
+export interface Router<Inherited extends RouteParams = Record<never, never>> {
   /** Stack of Layer objects representing routes */
   stack: Layer[];
 
@@ -30,31 +57,77 @@ export interface Router {
   options: RouterOptions;
 
   /** Create a new route for the given path */
-  route: (path: string) => Route;
+  route: <Path extends string>(
+    path: Path
+  ) => Route<PathParams<Path> & Inherited>;
+
+  /**
+   * Common HTTP method handlers. OPTIONS handlers are registered through
+   * route(path).options() since `options` holds the router configuration.
+   */
+  get: RouteMethod<Router<Inherited>, Inherited>;
+  post: RouteMethod<Router<Inherited>, Inherited>;
+  put: RouteMethod<Router<Inherited>, Inherited>;
+  delete: RouteMethod<Router<Inherited>, Inherited>;
+  patch: RouteMethod<Router<Inherited>, Inherited>;
+  head: RouteMethod<Router<Inherited>, Inherited>;
+
+  /** Register a WebSocket route, upgraded once its middleware has run */
+  ws: WebSocketMethod<Router<Inherited>, Inherited>;
+
+  /**
+   * Register middleware or mount sub-routers, optionally at a path prefix.
+   * Handlers taking four arguments are registered as error handlers.
+   */
+  use: {
+    (...handlers: Array<RouteHandler | Router>): Router<Inherited>;
+    (
+      path: string,
+      ...handlers: Array<RouteHandler | Router>
+    ): Router<Inherited>;
+    (...handlers: ErrorHandler[]): Router<Inherited>;
+    (path: string, ...handlers: ErrorHandler[]): Router<Inherited>;
+  };
 
-  /** Register middleware */
-  use: (fn: RouteHandler) => Router;
+  /**
+   * List the uppercase methods the routes matching a path respond to,
+   * including routes in mounted routers
+   */
+  allowedMethods: (path: string) => string[];
 
   /** Handle an incoming request by finding a matching route */
-  handle: (req: Request) => Promise<Response>;
+  handle: (req: Request, finalHandler?: ErrorHandler) => Promise<Response>;
+
+  /** Dispatch a request through this router's stack within an existing context */
+  dispatch: (
+    req: RequestContext,
+    res: ResponseContext,
+    out: NextFunction
+  ) => void;
 }
 
 /**
- * Next function type for middleware chaining
+ * Next function type for middleware chaining. Passing an error skips to the
+ * next error-handling middleware.
  */
-export type NextFunction = () => void;
+export type NextFunction = (err?: unknown) => void;
 
 /**
- * Gets the pathname from the request URL
+ * Gets the pathname and query string from the request URL
  * @param {Request} req - The request object
- * @returns {string} The URL pathname or "/" on error
+ * @param {Logger} logger - Receives the error if the URL cannot be parsed
+ * @returns {{ pathname: string, search: string }} The URL parts or "/" on error
  */
-function getPathname(req: Request): string {
+function getUrlParts(
+  req: Request,
+  logger: Logger
+): { pathname: string; search: string } {
   try {
-    return new URL(req.url).pathname;
+    const url = new URL(req.url);
+    return { pathname: url.pathname, search: url.search };
   } catch (err) {
-    console.error("Error parsing URL:", err);
-    return "/";
+    logger.error("Error parsing URL:", err);
+    return { pathname: "/", search: "" };
   }
 }
 
@@ -73,48 +146,101 @@ function matchLayer(layer: Layer, path: string): boolean | Error {
 }
 
 /**
- * Creates a response context for handling responses
+ * Answers a request whose path matched routes but none handled its method:
+ * OPTIONS requests get the allowed methods and others receive a 405
+ * @param {RequestContext} req - The request context
+ * @param {ResponseContext} res - The response context
+ * @param {Set<string>} allowed - The methods the matched routes respond to
  */
-function createResponseContext(): ResponseContext {
-  return {
-    statusCode: 200,
-    status(code: number) {
-      this.statusCode = code;
-      return this;
-    },
-    async send(body: string) {
-      await Promise.resolve();
-
-      this._response = new Response(body, {
-        status: this.statusCode || 200,
-        headers: this.headers,
-      });
-      return this._response;
-    },
-    async json(body: unknown) {
-      await Promise.resolve();
+function respondAllowed(
+  req: RequestContext,
+  res: ResponseContext,
+  allowed: Set<string>
+): void {
+  const allow = [...new Set([...allowed, "OPTIONS"])].sort().join(", ");
+
+  res.headers.set("Allow", allow);
+  if (req.method === "OPTIONS") {
+    res.status(200).type("txt").send(allow);
+  } else {
+    res.status(405).type("txt").send(STATUS_TEXT[405]);
+  }
+}
 
-      this.headers.set("Content-Type", "application/json");
-      this._response = new Response(JSON.stringify(body), {
-        status: this.statusCode || 200,
-        headers: this.headers,
-      });
-      return this._response;
-    },
-    headers: new Headers(),
-    _response: null,
-  };
+/**
+ * Formats the time since a start time for traces
+ * @param {number} started - The start time from performance.now()
+ * @returns {string} The elapsed milliseconds, e.g. "1.2ms"
+ */
+function elapsed(started: number): string {
+  return `${(performance.now() - started).toFixed(1)}ms`;
 }
 
 /**
- * Creates a router function for managing routes and handling requests
+ * Creates a router function for managing routes and handling requests.
+ * With DEBUG=express:router, each layer's match decision and timing is
+ * traced through the logger.
  * @param {RouterOptions} [options={}] - Optional configuration options
  * @returns {Router} The router object with methods for route management
  */
-export function createRouter(options: RouterOptions = {}): Router {
+export function createRouter<
+  Inherited extends RouteParams = Record<never, never>
+>(options: RouterOptions = {}): Router<Inherited> {
   const stack: Layer[] = [];
+  const debug = createDebug("express:router", options.logger);
+  let routeIndex: RouteIndex | null = null;
+
+  /**
+   * Gets the route index, building it if it was discarded since the last lookup
+   * @returns {RouteIndex} The route index for the current stack
+   */
+  const getRouteIndex = (): RouteIndex => {
+    routeIndex ??= createRouteIndex(stack, options);
+    return routeIndex;
+  };
+
+  /**
+   * Discards the route index after a layer or route method is added
+   */
+  const invalidateRouteIndex = (): void => {
+    routeIndex = null;
+  };
+
+  /**
+   * Adds the methods of routes the index ruled out by method alone to
+   * req._allowedMethods, for those that do match the path
+   * @param {RequestContext} req - The request that was not handled
+   * @param {number[]} indices - Stack indices of routes for other methods
+   * @param {string} path - The path relative to this router
+   */
+  const collectAllowedMethods = (
+    req: RequestContext,
+    indices: number[],
+    path: string
+  ): void => {
+    for (const index of indices) {
+      const layer = stack[index];
+
+      if (layer.route?.websocket || matchLayer(layer, path) !== true) {
+        continue;
+      }
+
+      debug("skip route", layer.path, "- no", req.method, "handler");
+      req._allowedMethods ??= new Set();
+      layer.route?.allowedMethods().forEach((m) => req._allowedMethods?.add(m));
+    }
+  };
 
-  const router: Router = {
+  const createMethodHandler = (
+    method: HttpMethod
+  ): RouteMethod<Router<Inherited>, Inherited> => {
+    return function (path: string, ...handlers: RouteHandler[]) {
+      router.route(path).addMethod(method, ...handlers);
+      return router;
+    } as RouteMethod<Router<Inherited>, Inherited>;
+  };
+
+  const router: Router<Inherited> = {
     stack,
     options,
 
@@ -123,116 +249,350 @@ export function createRouter(options: RouterOptions = {}): Router {
      * @param {string} path - The route path to match
      * @returns {Route} A new Route for the path
      */
-    route(path: string): Route {
-      const route = createRoute(path);
-      const layer = createLayer(path, (req, res, next) => {
+    route<Path extends string>(
+      path: Path
+    ): Route<PathParams<Path> & Inherited> {
+      const route = createRoute<PathParams<Path> & Inherited>(path, {
+        logger: options.logger,
+        onMethodAdded: invalidateRouteIndex,
+      });
+      const handler: RouteHandler = (req, res, next) => {
         if (route.dispatch) {
           return route.dispatch(req, res, next || (() => {}));
         }
+      };
+      const layer = createLayer(path, handler, {
+        end: true,
+        caseSensitive: options.caseSensitive,
+        strict: options.strict,
       });
 
       layer.route = route;
+      layer.name = "route";
       stack.push(layer);
+      invalidateRouteIndex();
 
       return route;
     },
 
+    get: createMethodHandler("get"),
+    post: createMethodHandler("post"),
+    put: createMethodHandler("put"),
+    delete: createMethodHandler("delete"),
+    patch: createMethodHandler("patch"),
+    head: createMethodHandler("head"),
+
     /**
-     * Use middleware
-     * @param {RouteHandler} fn - The middleware function
+     * Register a WebSocket route
+     * @param {string} path - The route path to match
+     * @param {...(WebSocketOptions|RouteHandler|WebSocketHandler)} args - Optional upgrade options, route middleware and the socket handler
      * @returns {Router} This router for chaining
      */
-    use(fn: RouteHandler): Router {
-      const layer = createLayer("/", fn);
-      layer.route = undefined;
+    ws: function (
+      path: string,
+      ...args: Array<WebSocketOptions | RouteHandler | WebSocketHandler>
+    ) {
+      const route = router.route(path);
+      route.websocket = true;
+      route.addMethod("get", ...createWebSocketRoute(args));
+      return router;
+    } as Router<Inherited>["ws"],
 
-      (layer as unknown as Record<string, string>).name =
-        fn.name || "<anonymous middleware>";
+    /**
+     * Use middleware or mount a sub-router, optionally at a path prefix
+     * @param {...(string|RouteHandler|ErrorHandler|Router)} args - Optional path followed by handlers
+     * @returns {Router} This router for chaining
+     */
+    use(
+      ...args: Array<string | RouteHandler | ErrorHandler | Router>
+    ): Router<Inherited> {
+      const path = typeof args[0] === "string" ? (args.shift() as string) : "/";
+      const handlers = args as Array<RouteHandler | ErrorHandler | Router>;
+
+      if (handlers.length === 0) {
+        throw new TypeError("Router.use() requires a middleware function");
+      }
+
+      handlers.forEach((handler) => {
+        const mountRouter: RouteHandler = (req, res, next) => {
+          (handler as Router).dispatch(req, res, next || (() => {}));
+        };
+        const fn = typeof handler === "function" ? handler : mountRouter;
+
+        const layer = createLayer(path, fn, {
+          end: false,
+          caseSensitive: options.caseSensitive,
+          strict: options.strict,
+        });
+        layer.route = undefined;
+        layer.router = typeof handler === "function" ? undefined : handler;
+        layer.name =
+          typeof handler === "function"
+            ? handler.name || "<anonymous middleware>"
+            : "router";
+
+        stack.push(layer);
+        invalidateRouteIndex();
+      });
 
-      stack.push(layer);
       return router;
     },
 
+    /**
+     * List the methods the routes matching a path respond to
+     * @param {string} path - The request path relative to this router
+     * @returns {string[]} The sorted uppercase methods
+     */
+    allowedMethods(path: string): string[] {
+      const allowed = new Set<string>();
+
+      for (const layer of stack) {
+        if (matchLayer(layer, path) !== true) {
+          continue;
+        }
+
+        if (layer.route) {
+          if (!layer.route.websocket) {
+            layer.route.allowedMethods().forEach((m) => allowed.add(m));
+          }
+        } else if (layer.router) {
+          const removed = layer.matchedPath.replace(/\/$/, "");
+          const remaining = path.slice(removed.length);
+
+          layer.router
+            .allowedMethods(
+              remaining.startsWith("/") ? remaining : "/" + remaining
+            )
+            .forEach((m) => allowed.add(m));
+        }
+      }
+
+      return [...allowed].sort();
+    },
+
     /**
      * Handle an incoming request by finding a matching route
      * @param {Request} req - The incoming request object
+     * @param {ErrorHandler} [finalHandler] - Handler for errors left unhandled by the stack
      * @returns {Promise<Response>} A response object
      */
-    handle(req: Request): Promise<Response> {
-      const method = req.method.toLowerCase();
-      const path = getPathname(req);
-      const responseContext = createResponseContext();
-
-      return new Promise((resolve) => {
-        let idx = 0;
-
-        const next: NextFunction = () => {
-          let match: boolean | Error;
-          let layer: Layer | undefined;
-          let route: Route | undefined;
-
-          while (idx < stack.length) {
-            layer = stack[idx++];
-            match = matchLayer(layer, path);
-
-            if (match !== true) {
-              continue;
-            }
-
-            route = layer.route;
-
-            if (!route) {
-              try {
-                Promise.resolve(
-                  layer.handleRequest(req, responseContext, next)
-                ).catch((err) => {
-                  console.error("Middleware error:", err);
-                  resolve(
-                    new Response("Internal Server Error", { status: 500 })
-                  );
-                });
-                return;
-              } catch (err) {
-                console.error("Middleware error:", err);
-                resolve(new Response("Internal Server Error", { status: 500 }));
-                return;
-              }
-            }
-
-            if (route.methods[method]) {
-              try {
-                Promise.resolve(layer.handleRequest(req, responseContext, next))
-                  .then(() => {
-                    if (responseContext._response) {
-                      resolve(responseContext._response);
-                    }
-                  })
-                  .catch((err) => {
-                    console.error("Route error:", err);
-                    resolve(
-                      new Response("Internal Server Error", { status: 500 })
-                    );
-                  });
-
-                return;
-              } catch (err) {
-                console.error("Route error:", err);
-                resolve(new Response("Internal Server Error", { status: 500 }));
-                return;
-              }
-            }
+    handle(
+      req: Request,
+      finalHandler: ErrorHandler = errorHandler()
+    ): Promise<Response> {
+      const { pathname, search } = getUrlParts(req, options.logger ?? console);
+      const request = req as RequestContext;
+      const started = performance.now();
+
+      request.params = {};
+      request.path = pathname;
+      request.baseUrl = "";
+      request.originalUrl = pathname + search;
+
+      return new Promise((resolvePromise) => {
+        const resolve = (response: Response) => {
+          debug(
+            request.method,
+            request.originalUrl,
+            "->",
+            response.status,
+            "in",
+            elapsed(started)
+          );
+
+          if (request.method !== "HEAD") {
+            resolvePromise(response);
+            return;
           }
 
-          if (!responseContext._response) {
-            resolve(new Response("Not Found", { status: 404 }));
-          } else {
-            resolve(responseContext._response);
+          response.body?.cancel();
+          resolvePromise(
+            new Response(null, {
+              status: response.status,
+              statusText: response.statusText,
+              headers: response.headers,
+            })
+          );
+        };
+        const fallback = () => {
+          resolve(new Response("Internal Server Error", { status: 500 }));
+        };
+
+        const fail = async (err: unknown): Promise<void> => {
+          try {
+            await finalHandler(err, request, responseContext, () => {
+              if (!responseContext._response) fallback();
+            });
+          } catch {
+            fallback();
           }
         };
 
-        next();
+        const responseContext = createResponseContext(request, resolve, fail);
+
+        router.dispatch(request, responseContext, (err?: unknown) => {
+          if (responseContext._response) {
+            return;
+          }
+
+          if (!err && request._upgradeRequired) {
+            debug("no", request.method, "route; WebSocket upgrade required");
+            responseContext.headers.set("Upgrade", "websocket");
+            responseContext.status(426).type("txt").send(STATUS_TEXT[426]);
+            return;
+          }
+
+          if (!err && request._allowedMethods?.size) {
+            debug(
+              "no",
+              request.method,
+              "route; allowed:",
+              [...request._allowedMethods].join(", ")
+            );
+            respondAllowed(request, responseContext, request._allowedMethods);
+            return;
+          }
+
+          if (!err) {
+            responseContext.status(404).type("txt").send(STATUS_TEXT[404]);
+            return;
+          }
+
+          fail(err);
+        });
       });
     },
+
+    /**
+     * Dispatch a request through this router's stack, calling out when no
+     * layer handles it. Only the layers the route index cannot rule out for
+     * the path and method are matched, in stack order. Mounted layers see the
+     * path relative to their mount point.
+     * While an error is pending, only error-handling middleware is run.
+     * Once the stack is exhausted, the methods of routes that match the path
+     * but not the method are collected in req._allowedMethods for handle()
+     * to answer with, and
+     * WebSocket routes skipped by plain requests set req._upgradeRequired.
+     * @param {RequestContext} req - The incoming request context
+     * @param {ResponseContext} res - The response context
+     * @param {NextFunction} out - Called when the stack is exhausted, with any pending error
+     */
+    dispatch(
+      req: RequestContext,
+      res: ResponseContext,
+      out: NextFunction
+    ): void {
+      const method = req.method.toLowerCase();
+      const parentPath = req.path;
+      const parentBaseUrl = req.baseUrl;
+      const parentParams = req.params;
+      const { candidates, others } = getRouteIndex().lookup(parentPath, method);
+      let idx = 0;
+      let running: { layer: Layer; started: number } | undefined;
+
+      debug(
+        "dispatch",
+        req.method,
+        parentBaseUrl + parentPath,
+        `(${candidates.length} of ${stack.length} layers may match)`
+      );
+
+      const next: NextFunction = (err?: unknown) => {
+        let layerError = err;
+
+        if (running) {
+          debug(
+            running.layer.name,
+            running.layer.path,
+            err ? "passed an error" : "called next",
+            "after",
+            elapsed(running.started)
+          );
+          running = undefined;
+        }
+
+        req.path = parentPath;
+        req.baseUrl = parentBaseUrl;
+        req.params = parentParams;
+
+        while (idx < candidates.length) {
+          const layer = stack[candidates[idx++]];
+          const match = matchLayer(layer, parentPath);
+
+          if (match instanceof Error) {
+            layerError = layerError || match;
+          }
+
+          if (match !== true) {
+            debug("skip", layer.name, layer.path, "- no match");
+            continue;
+          }
+
+          const route = layer.route;
+
+          if (route && layerError) {
+            debug("skip route", layer.path, "- error pending");
+            continue;
+          }
+
+          if (route?.websocket && !isUpgradeRequest(req)) {
+            debug("skip route", layer.path, "- not a WebSocket upgrade");
+            req._upgradeRequired ||= route.handlesMethod(method);
+            continue;
+          }
+
+          if (route && !route.handlesMethod(method)) {
+            debug("skip route", layer.path, "- no", req.method, "handler");
+            req._allowedMethods ??= new Set();
+            route.allowedMethods().forEach((m) => req._allowedMethods?.add(m));
+            continue;
+          }
+
+          req.params = options.mergeParams
+            ? { ...parentParams, ...layer.params }
+            : { ...layer.params };
+
+          if (!route) {
+            const removed = layer.matchedPath.replace(/\/$/, "");
+            const remaining = parentPath.slice(removed.length);
+
+            req.baseUrl = parentBaseUrl + removed;
+            req.path = remaining.startsWith("/") ? remaining : "/" + remaining;
+          }
+
+          debug(
+            layerError
+              ? "error"
+              : layer.handle.length > 3
+              ? "pass error handler"
+              : "run",
+            layer.name,
+            layer.path,
+            "matched",
+            layer.matchedPath || "/"
+          );
+          if (debug.enabled) {
+            running = { layer, started: performance.now() };
+          }
+
+          if (layerError) {
+            layer.handleError(layerError, req, res, next);
+          } else {
+            layer.handleRequest(req, res, next);
+          }
+          return;
+        }
+
+        if (!layerError) {
+          collectAllowedMethods(req, others, parentPath);
+        }
+
+        debug("end of stack", layerError ? "with an error" : "- not handled");
+        out(layerError);
+      };
+
+      next();
+    },
   };
 
   return router;
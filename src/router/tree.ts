@@ -0,0 +1,241 @@
+/**
+ * @file tree.ts
+ * @description Indexes a router's route layers in a segment trie, keyed by
+ * method at the leaves, so a request only has to be matched against the
+ * layers that can handle its method and path. Middleware layers and routes
+ * whose paths cannot be indexed are always candidates, which keeps the
+ * stack's registration order intact.
+ * @author Sriram Sundar
+ */
+
+import { Layer } from "./layer.ts";
+import { RouterOptions } from "./router.ts";
+
+/**
+ * A node in the route trie, one per path segment
+ */
+interface TreeNode {
+  /** Children keyed by static segment (lowercased unless case sensitive) */
+  children: Map<string, TreeNode>;
+  /** Child matching any single non-empty segment (a `:name` parameter) */
+  param: TreeNode | null;
+  /** Stack indices of routes whose path ends at this node, by lowercase method */
+  routes: Map<string, number[]>;
+  /** Stack indices of routes ending in a `*` wildcard after this node, by lowercase method */
+  wildcards: Map<string, number[]>;
+}
+
+/**
+ * The layers a lookup found for a request
+ */
+export interface RouteLookup {
+  /** Stack indices that may handle the request, in stack order */
+  candidates: number[];
+  /** Stack indices of routes on the path with handlers for other methods only */
+  others: number[];
+}
+
+/**
+ * An index over a router stack. It is built for the stack and route methods
+ * at the time, so the router discards it when either changes.
+ */
+export interface RouteIndex {
+  /**
+   * Lists the stack indices that may match a request
+   * @param {string} path - The request path
+   * @param {string} method - The lowercase request method
+   * @returns {RouteLookup} The candidates and the routes for other methods
+   */
+  lookup: (path: string, method: string) => RouteLookup;
+}
+
+/**
+ * Matches a path segment that is exactly one named parameter
+ */
+const PARAM_SEGMENT = /^:[A-Za-z_$][\w$]*$/;
+
+/**
+ * Creates an empty trie node
+ * @returns {TreeNode} The node
+ */
+function createNode(): TreeNode {
+  return {
+    children: new Map(),
+    param: null,
+    routes: new Map(),
+    wildcards: new Map(),
+  };
+}
+
+/**
+ * Adds a route to a leaf under each of its methods
+ * @param {Map<string, number[]>} leaves - The leaf's routes by method
+ * @param {Layer} layer - The route layer
+ * @param {number} index - The layer's position in the stack
+ */
+function addLeaf(
+  leaves: Map<string, number[]>,
+  layer: Layer,
+  index: number
+): void {
+  for (const method of Object.keys(layer.route?.methods ?? {})) {
+    const indices = leaves.get(method) ?? [];
+    indices.push(index);
+    leaves.set(method, indices);
+  }
+}
+
+/**
+ * Splits a path into segments, dropping the leading "/" and, unless strict,
+ * a trailing "/"
+ * @param {string} path - The path to split
+ * @param {boolean} strict - Whether a trailing slash is significant
+ * @returns {string[]} The path segments
+ */
+function splitPath(path: string, strict: boolean): string[] {
+  const segments = path.split("/").slice(1);
+
+  if (!strict && segments[segments.length - 1] === "") {
+    segments.pop();
+  }
+
+  return segments;
+}
+
+/**
+ * Adds a route layer to the trie
+ * @param {TreeNode} root - The root node
+ * @param {Layer} layer - The route layer
+ * @param {number} index - The layer's position in the stack
+ * @param {RouterOptions} options - The router options
+ * @returns {boolean} False if the path cannot be indexed
+ */
+function insert(
+  root: TreeNode,
+  layer: Layer,
+  index: number,
+  options: RouterOptions
+): boolean {
+  const segments = splitPath(layer.path, Boolean(options.strict));
+  let node = root;
+
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+
+    if (segment === "*" && i === segments.length - 1) {
+      addLeaf(node.wildcards, layer, index);
+      return true;
+    }
+
+    if (PARAM_SEGMENT.test(segment)) {
+      node.param ??= createNode();
+      node = node.param;
+      continue;
+    }
+
+    if (segment.includes(":") || segment.includes("*")) {
+      return false;
+    }
+
+    const key = options.caseSensitive ? segment : segment.toLowerCase();
+    let child = node.children.get(key);
+
+    if (!child) {
+      child = createNode();
+      node.children.set(key, child);
+    }
+    node = child;
+  }
+
+  addLeaf(node.routes, layer, index);
+  return true;
+}
+
+/**
+ * Collects the leaves of the routes that may match the remaining segments
+ * @param {TreeNode} node - The current node
+ * @param {string[]} segments - The request path segments
+ * @param {number} depth - The index of the next segment to match
+ * @param {boolean} caseSensitive - Whether static segments are case sensitive
+ * @param {Map<string, number[]>[]} found - Receives the matching leaves
+ */
+function collect(
+  node: TreeNode,
+  segments: string[],
+  depth: number,
+  caseSensitive: boolean,
+  found: Map<string, number[]>[]
+): void {
+  found.push(node.wildcards);
+
+  if (depth === segments.length) {
+    found.push(node.routes);
+    return;
+  }
+
+  const segment = segments[depth];
+  const key = caseSensitive ? segment : segment.toLowerCase();
+  const child = node.children.get(key);
+
+  if (child) {
+    collect(child, segments, depth + 1, caseSensitive, found);
+  }
+
+  if (node.param && segment !== "") {
+    collect(node.param, segments, depth + 1, caseSensitive, found);
+  }
+}
+
+/**
+ * Builds a route index over a router stack. Layers returned by lookup are
+ * still matched in full, so the index only needs to rule layers out. HEAD
+ * requests also find the routes with GET handlers.
+ * @param {Layer[]} stack - The router stack
+ * @param {RouterOptions} [options={}] - The router options used to compile the layers
+ * @returns {RouteIndex} The route index
+ */
+export function createRouteIndex(
+  stack: Layer[],
+  options: RouterOptions = {}
+): RouteIndex {
+  const root = createNode();
+  const caseSensitive = Boolean(options.caseSensitive);
+  const strict = Boolean(options.strict);
+  const unindexed: number[] = [];
+
+  stack.forEach((layer, index) => {
+    if (!layer.route || !insert(root, layer, index, options)) {
+      unindexed.push(index);
+    }
+  });
+
+  return {
+    lookup(path: string, method: string): RouteLookup {
+      const leaves: Map<string, number[]>[] = [];
+      collect(root, splitPath(path, strict), 0, caseSensitive, leaves);
+
+      const matched = new Set<number>();
+      const others = new Set<number>();
+
+      for (const leaf of leaves) {
+        for (const [name, indices] of leaf) {
+          const target =
+            name === method || (method === "head" && name === "get")
+              ? matched
+              : others;
+          indices.forEach((index) => target.add(index));
+        }
+      }
+
+      matched.forEach((index) => others.delete(index));
+
+      return {
+        candidates:
+          matched.size === 0
+            ? unindexed
+            : [...unindexed, ...matched].sort((a, b) => a - b),
+        others: [...others].sort((a, b) => a - b),
+      };
+    },
+  };
+}
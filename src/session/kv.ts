@@ -0,0 +1,60 @@
+/**
+ * @file kv.ts
+ * @description A session store backed by Deno KV, for sessions that survive
+ * restarts and are shared between instances.
+ * @author Sriram Sundar
+ */
+
+import { SessionData, SessionStore } from "./store.ts";
+
+/**
+ * Configuration options for the Deno KV store
+ */
+export interface KvStoreOptions {
+  /** The key prefix sessions are stored under (defaults to ["sessions"]) */
+  prefix?: Deno.KvKey;
+}
+
+/**
+ * A session as stored in Deno KV
+ */
+interface KvSession {
+  data: SessionData;
+  expires: number;
+}
+
+/**
+ * Creates a store that keeps sessions in Deno KV. Entries are written with
+ * expireIn, and the expiry is also checked on read because KV deletes expired
+ * entries lazily.
+ * @param {Deno.Kv} kv - An open database, from Deno.openKv()
+ * @param {KvStoreOptions} [options={}] - KV store configuration options
+ * @returns {SessionStore} The store
+ */
+export function createKvStore(
+  kv: Deno.Kv,
+  options: KvStoreOptions = {}
+): SessionStore {
+  const { prefix = ["sessions"] } = options;
+  const key = (id: string): Deno.KvKey => [...prefix, id];
+
+  return {
+    async get(id: string) {
+      const entry = await kv.get<KvSession>(key(id));
+
+      if (!entry.value || entry.value.expires <= Date.now()) {
+        return undefined;
+      }
+      return entry.value.data;
+    },
+
+    async set(id: string, data: SessionData, ttl: number) {
+      const value: KvSession = { data, expires: Date.now() + ttl };
+      await kv.set(key(id), value, { expireIn: ttl });
+    },
+
+    async destroy(id: string) {
+      await kv.delete(key(id));
+    },
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * @file store.ts
+ * @description The storage interface for session data, and the default
+ * in-memory store that evicts the least recently used sessions.
+ * @author Sriram Sundar
+ */
+
+/**
+ * Values stored in a session. Extend this interface through declaration
+ * merging to type req.session.data.
+ */
+export interface SessionData {
+  [key: string]: unknown;
+}
+
+/**
+ * Persists session data by session id. Data must survive a JSON round trip.
+ */
+export interface SessionStore {
+  /**
+   * Loads a session.
+   * @param {string} id - The session id
+   * @returns {Promise<SessionData | undefined>} The data, or undefined if missing or expired
+   */
+  get: (id: string) => Promise<SessionData | undefined>;
+
+  /**
+   * Saves a session, replacing any earlier data.
+   * @param {string} id - The session id
+   * @param {SessionData} data - The data to save
+   * @param {number} ttl - Milliseconds until the session expires
+   */
+  set: (id: string, data: SessionData, ttl: number) => Promise<void>;
+
+  /**
+   * Deletes a session.
+   * @param {string} id - The session id
+   */
+  destroy: (id: string) => Promise<void>;
+
+  /**
+   * Extends a session's expiry without changing its data. Stores without
+   * touch have the session saved again instead.
+   * @param {string} id - The session id
+   * @param {SessionData} data - The current data
+   * @param {number} ttl - Milliseconds until the session expires
+   */
+  touch?: (id: string, data: SessionData, ttl: number) => Promise<void>;
+}
+
+/**
+ * Configuration options for the memory store
+ */
+export interface MemoryStoreOptions {
+  /** The most sessions kept before the least recently used are evicted (defaults to 10000) */
+  max?: number;
+}
+
+/**
+ * Creates a store that keeps sessions in process memory. Sessions are lost on
+ * restart and not shared between processes, so use a persistent store such
+ * as the Deno KV store when running more than one instance.
+ * @param {MemoryStoreOptions} [options={}] - Memory store configuration options
+ * @returns {SessionStore} The store
+ */
+export function createMemoryStore(
+  options: MemoryStoreOptions = {}
+): SessionStore {
+  const { max = 10_000 } = options;
+  // Map iteration follows insertion order, so re-inserting an entry on each
+  // use leaves the least recently used session first
+  const sessions = new Map<string, { json: string; expires: number }>();
+
+  return {
+    get(id: string) {
+      const entry = sessions.get(id);
+      sessions.delete(id);
+
+      if (!entry || entry.expires <= Date.now()) {
+        return Promise.resolve(undefined);
+      }
+
+      sessions.set(id, entry);
+      return Promise.resolve(JSON.parse(entry.json));
+    },
+
+    set(id: string, data: SessionData, ttl: number) {
+      sessions.delete(id);
+      sessions.set(id, {
+        json: JSON.stringify(data),
+        expires: Date.now() + ttl,
+      });
+
+      for (const oldest of sessions.keys()) {
+        if (sessions.size <= max) {
+          break;
+        }
+        sessions.delete(oldest);
+      }
+      return Promise.resolve();
+    },
+
+    destroy(id: string) {
+      sessions.delete(id);
+      return Promise.resolve();
+    },
+
+    touch(id: string, _data: SessionData, ttl: number) {
+      const entry = sessions.get(id);
+      if (entry) {
+        sessions.delete(id);
+        sessions.set(id, { ...entry, expires: Date.now() + ttl });
+      }
+      return Promise.resolve();
+    },
+  };
+}
@@ -0,0 +1,575 @@
+/**
+ * @file request.ts
+ * @description In-process test client for applications. Requests are passed
+ * straight to app.handle() without opening a socket, and responses are checked
+ * with chainable expectations that fail with @std/assert errors.
+ * @author Sriram Sundar
+ */
+
+import { assertEquals, AssertionError, assertMatch } from "@std/assert";
+import STATUS_TEXT from "../core/status.ts";
+import { contentType, parseContentType } from "../utils/mime.ts";
+
+/**
+ * Anything that answers a Request with a Response, such as an app or a router
+ */
+export type TestTarget =
+  | { handle: (req: Request) => Promise<Response> }
+  | ((req: Request) => Response | Promise<Response>);
+
+/**
+ * Body types accepted by TestRequest.send. Plain objects and arrays are sent
+ * as JSON.
+ */
+export type TestBody =
+  | string
+  | Uint8Array
+  | Blob
+  | FormData
+  | URLSearchParams
+  | object;
+
+/**
+ * The response a test request received
+ */
+export interface TestResponse {
+  /** The HTTP status code */
+  status: number;
+  /** The response headers */
+  headers: Headers;
+  /** The media type from Content-Type, without parameters */
+  type: string;
+  /** The response body as text */
+  text: string;
+  /** The response body parsed as JSON for JSON responses, otherwise undefined */
+  body: unknown;
+  /** The URLs of redirects that were followed, in order */
+  redirects: string[];
+  /** The underlying Response, whose body has been read */
+  raw: Response;
+}
+
+/**
+ * Checks a response, throwing to fail the test
+ */
+export type ResponseAssertion = (res: TestResponse) => void | Promise<void>;
+
+/**
+ * A request being built. Await it, or call then(), to send it and run its
+ * expectations.
+ */
+export interface TestRequest extends PromiseLike<TestResponse> {
+  /**
+   * Sets one request header, or several from an object.
+   * @param {string|Record<string, string>} field - The header name or a map of headers
+   * @param {string} [value] - The header value
+   * @returns {TestRequest} This request for chaining
+   */
+  set: {
+    (field: string, value: string): TestRequest;
+    (fields: Record<string, string>): TestRequest;
+  };
+
+  /**
+   * Adds query string parameters.
+   * @param {string|Record<string, string|number|boolean>} params - A query string or a map of values
+   * @returns {TestRequest} This request for chaining
+   */
+  query: (
+    params: string | Record<string, string | number | boolean>
+  ) => TestRequest;
+
+  /**
+   * Sets the Content-Type from a media type or an extension such as "json".
+   * @param {string} type - The media type or extension
+   * @returns {TestRequest} This request for chaining
+   */
+  type: (type: string) => TestRequest;
+
+  /**
+   * Sets the Accept header from a media type or an extension such as "json".
+   * @param {string} type - The media type or extension
+   * @returns {TestRequest} This request for chaining
+   */
+  accept: (type: string) => TestRequest;
+
+  /**
+   * Sets Basic authorization credentials.
+   * @param {string} user - The user name
+   * @param {string} password - The password
+   * @returns {TestRequest} This request for chaining
+   */
+  auth: (user: string, password: string) => TestRequest;
+
+  /**
+   * Sets the request body. Objects are sent as JSON and strings as text,
+   * unless a Content-Type was set.
+   * @param {TestBody} body - The request body
+   * @returns {TestRequest} This request for chaining
+   */
+  send: (body: TestBody) => TestRequest;
+
+  /**
+   * Follows up to the given number of redirects (none by default). 303
+   * responses, and 301 and 302 responses to POST, are followed with GET.
+   * @param {number} count - The maximum number of redirects to follow
+   * @returns {TestRequest} This request for chaining
+   */
+  redirects: (count: number) => TestRequest;
+
+  /**
+   * Adds an expectation on the status, a header, the body or the whole
+   * response. Bodies are compared as text for strings, matched for regular
+   * expressions and compared deeply with the parsed JSON otherwise.
+   */
+  expect: {
+    (status: number, body?: unknown): TestRequest;
+    (field: string, value: string | RegExp): TestRequest;
+    (body: RegExp | Record<string, unknown> | unknown[]): TestRequest;
+    (assertion: ResponseAssertion): TestRequest;
+  };
+}
+
+/**
+ * A client for sending requests to an app. Cookies set by responses are kept
+ * and sent with the client's later requests.
+ */
+export interface TestClient {
+  /** Starts a GET request */
+  get: (path: string) => TestRequest;
+  /** Starts a POST request */
+  post: (path: string) => TestRequest;
+  /** Starts a PUT request */
+  put: (path: string) => TestRequest;
+  /** Starts a PATCH request */
+  patch: (path: string) => TestRequest;
+  /** Starts a DELETE request */
+  delete: (path: string) => TestRequest;
+  /** Starts a HEAD request */
+  head: (path: string) => TestRequest;
+  /** Starts an OPTIONS request */
+  options: (path: string) => TestRequest;
+
+  /**
+   * Starts a request with any method.
+   * @param {string} method - The HTTP method
+   * @param {string} path - The request path, optionally with a query string
+   * @returns {TestRequest} The request being built
+   */
+  request: (method: string, path: string) => TestRequest;
+
+  /**
+   * Gets the cookies the client would send to a path.
+   * @param {string} [path="/"] - The request path
+   * @returns {Record<string, string>} Cookie values by name
+   */
+  cookies: (path?: string) => Record<string, string>;
+}
+
+/**
+ * A cookie kept by the client's jar
+ */
+interface StoredCookie {
+  value: string;
+  path: string;
+  expires?: number;
+}
+
+/**
+ * The client's cookie jar: cookies by name and path
+ */
+interface CookieJar {
+  /**
+   * Stores the cookies from Set-Cookie headers; expired cookies are removed
+   * @param {string[]} setCookies - The Set-Cookie header values
+   * @param {URL} url - The URL the response came from
+   */
+  store: (setCookies: string[], url: URL) => void;
+
+  /**
+   * Gets the cookies that apply to a URL
+   * @param {URL} url - The request URL
+   * @returns {Record<string, string>} Cookie values by name
+   */
+  match: (url: URL) => Record<string, string>;
+}
+
+/**
+ * Statuses that redirect to the Location header
+ */
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+/**
+ * Creates an empty cookie jar
+ * @returns {CookieJar} The cookie jar
+ */
+function createCookieJar(): CookieJar {
+  const cookies = new Map<string, StoredCookie>();
+
+  return {
+    store(setCookies, url) {
+      for (const header of setCookies) {
+        const [pair, ...attributes] = header.split(";");
+        const eq = pair.indexOf("=");
+        if (eq === -1) {
+          continue;
+        }
+
+        const name = pair.slice(0, eq).trim();
+        const cookie: StoredCookie = {
+          value: pair.slice(eq + 1).trim(),
+          path: url.pathname.slice(0, url.pathname.lastIndexOf("/")) || "/",
+        };
+
+        for (const attribute of attributes) {
+          const [key, ...rest] = attribute.split("=");
+          const value = rest.join("=").trim();
+
+          switch (key.trim().toLowerCase()) {
+            case "path":
+              cookie.path = value || "/";
+              break;
+            case "expires":
+              cookie.expires ??= Date.parse(value);
+              break;
+            case "max-age":
+              cookie.expires = Date.now() + Number(value) * 1000;
+              break;
+          }
+        }
+
+        const key = `${cookie.path}\0${name}`;
+        if (cookie.expires !== undefined && cookie.expires <= Date.now()) {
+          cookies.delete(key);
+        } else {
+          cookies.set(key, cookie);
+        }
+      }
+    },
+
+    match(url) {
+      const now = Date.now();
+      const result: Record<string, string> = {};
+      const entries = [...cookies.entries()].sort(
+        ([, a], [, b]) => a.path.length - b.path.length
+      );
+
+      for (const [key, cookie] of entries) {
+        if (cookie.expires !== undefined && cookie.expires <= now) {
+          cookies.delete(key);
+          continue;
+        }
+
+        const prefix = cookie.path.replace(/\/$/, "");
+        if (
+          url.pathname === cookie.path ||
+          url.pathname === prefix ||
+          url.pathname.startsWith(`${prefix}/`)
+        ) {
+          result[key.slice(key.indexOf("\0") + 1)] = cookie.value;
+        }
+      }
+      return result;
+    },
+  };
+}
+
+/**
+ * Serializes a request body and picks its default Content-Type
+ * @param {TestBody} body - The request body
+ * @returns {{ payload: BodyInit, type?: string }} The body and its default Content-Type
+ */
+function encodeBody(body: TestBody): { payload: BodyInit; type?: string } {
+  if (typeof body === "string") {
+    return { payload: body, type: "text/plain" };
+  }
+  if (body instanceof Uint8Array) {
+    return {
+      payload: body as Uint8Array<ArrayBuffer>,
+      type: "application/octet-stream",
+    };
+  }
+  if (
+    body instanceof Blob ||
+    body instanceof FormData ||
+    body instanceof URLSearchParams
+  ) {
+    return { payload: body };
+  }
+  return { payload: JSON.stringify(body), type: "application/json" };
+}
+
+/**
+ * Describes a status code with its reason phrase for assertion messages
+ * @param {TestResponse} res - The response
+ * @returns {string} The status description
+ */
+function describeStatus(res: TestResponse): string {
+  const text = STATUS_TEXT[res.status];
+  return text ? `${res.status} "${text}"` : String(res.status);
+}
+
+/**
+ * Creates an assertion on the response body
+ * @param {unknown} expected - A string, regular expression or JSON value
+ * @returns {ResponseAssertion} The assertion
+ */
+function expectBody(expected: unknown): ResponseAssertion {
+  return (res) => {
+    if (expected instanceof RegExp) {
+      assertMatch(res.text, expected, "Unexpected response body");
+    } else if (typeof expected === "string") {
+      assertEquals(res.text, expected, "Unexpected response body");
+    } else {
+      assertEquals(res.body, expected, "Unexpected response body");
+    }
+  };
+}
+
+/**
+ * Creates a request builder bound to a target and cookie jar
+ * @param {Function} handle - Answers a request
+ * @param {CookieJar} jar - The client's cookie jar
+ * @param {string} method - The HTTP method
+ * @param {string} path - The request path
+ * @returns {TestRequest} The request builder
+ */
+function createTestRequest(
+  handle: (req: Request) => Promise<Response>,
+  jar: CookieJar,
+  method: string,
+  path: string
+): TestRequest {
+  const url = new URL(path, "http://localhost");
+  const headers = new Headers();
+  const assertions: ResponseAssertion[] = [];
+  let body: TestBody | undefined;
+  let maxRedirects = 0;
+  let result: Promise<TestResponse> | undefined;
+
+  /**
+   * Sends the request, following redirects as configured
+   * @returns {Promise<TestResponse>} The final response
+   */
+  const perform = async (): Promise<TestResponse> => {
+    const redirects: string[] = [];
+    let currentUrl = url;
+    let currentMethod = method.toUpperCase();
+    let currentBody = body;
+
+    while (true) {
+      const requestHeaders = new Headers(headers);
+      let payload: BodyInit | undefined;
+
+      if (currentBody !== undefined) {
+        const encoded = encodeBody(currentBody);
+        payload = encoded.payload;
+        if (encoded.type && !requestHeaders.has("Content-Type")) {
+          requestHeaders.set("Content-Type", encoded.type);
+        }
+      } else {
+        requestHeaders.delete("Content-Type");
+      }
+
+      const cookies = Object.entries(jar.match(currentUrl));
+      if (cookies.length > 0 && !requestHeaders.has("Cookie")) {
+        requestHeaders.set(
+          "Cookie",
+          cookies.map(([name, value]) => `${name}=${value}`).join("; ")
+        );
+      }
+
+      const response = await handle(
+        new Request(currentUrl, {
+          method: currentMethod,
+          headers: requestHeaders,
+          body: payload,
+        })
+      );
+      jar.store(response.headers.getSetCookie(), currentUrl);
+
+      const location = response.headers.get("Location");
+      if (
+        REDIRECT_STATUSES.has(response.status) &&
+        location &&
+        redirects.length < maxRedirects
+      ) {
+        await response.body?.cancel();
+        currentUrl = new URL(location, currentUrl);
+        redirects.push(currentUrl.href);
+
+        if (
+          response.status === 303 ||
+          ((response.status === 301 || response.status === 302) &&
+            currentMethod === "POST")
+        ) {
+          currentMethod = currentMethod === "HEAD" ? "HEAD" : "GET";
+          currentBody = undefined;
+        }
+        continue;
+      }
+
+      const text = await response.text();
+      const type = parseContentType(response.headers.get("Content-Type"));
+      let parsed: unknown;
+
+      if (type && /[/+]json$/.test(type.type) && text) {
+        try {
+          parsed = JSON.parse(text);
+        } catch {
+          parsed = undefined;
+        }
+      }
+
+      const res: TestResponse = {
+        status: response.status,
+        headers: response.headers,
+        type: type?.type ?? "",
+        text,
+        body: parsed,
+        redirects,
+        raw: response,
+      };
+
+      for (const assertion of assertions) {
+        await assertion(res);
+      }
+
+      return res;
+    }
+  };
+
+  const testRequest: TestRequest = {
+    set(field: string | Record<string, string>, value?: string) {
+      if (typeof field === "string") {
+        headers.set(field, value ?? "");
+      } else {
+        Object.entries(field).forEach(([name, val]) => headers.set(name, val));
+      }
+      return testRequest;
+    },
+
+    query(params: string | Record<string, string | number | boolean>) {
+      const entries =
+        typeof params === "string"
+          ? new URLSearchParams(params.replace(/^\?/, ""))
+          : Object.entries(params).map(([key, val]) => [key, String(val)]);
+
+      for (const [key, val] of entries) {
+        url.searchParams.append(key, val);
+      }
+      return testRequest;
+    },
+
+    type(type: string) {
+      headers.set("Content-Type", contentType(type));
+      return testRequest;
+    },
+
+    accept(type: string) {
+      headers.set("Accept", contentType(type).replace(/;.*$/, ""));
+      return testRequest;
+    },
+
+    auth(user: string, password: string) {
+      const credentials = new TextEncoder().encode(`${user}:${password}`);
+      headers.set(
+        "Authorization",
+        `Basic ${btoa(String.fromCharCode(...credentials))}`
+      );
+      return testRequest;
+    },
+
+    send(value: TestBody) {
+      body = value;
+      return testRequest;
+    },
+
+    redirects(count: number) {
+      maxRedirects = count;
+      return testRequest;
+    },
+
+    expect: function (expected: unknown, value?: unknown) {
+      if (typeof expected === "function") {
+        assertions.push(expected as ResponseAssertion);
+      } else if (typeof expected === "number") {
+        assertions.push((res) => {
+          if (res.status !== expected) {
+            throw new AssertionError(
+              `Expected status ${expected}, got ${describeStatus(res)}: ${
+                method.toUpperCase() + " " + path
+              }`
+            );
+          }
+        });
+        if (value !== undefined) {
+          assertions.push(expectBody(value));
+        }
+      } else if (typeof expected === "string" && value !== undefined) {
+        assertions.push((res) => {
+          const actual = res.headers.get(expected);
+          const message = `Unexpected "${expected}" header`;
+
+          if (actual === null) {
+            throw new AssertionError(`Expected "${expected}" header to be set`);
+          }
+          if (value instanceof RegExp) {
+            assertMatch(actual, value, message);
+          } else {
+            assertEquals(actual, String(value), message);
+          }
+        });
+      } else {
+        assertions.push(expectBody(expected));
+      }
+      return testRequest;
+    } as TestRequest["expect"],
+
+    then(onFulfilled, onRejected) {
+      result ??= perform();
+      return result.then(onFulfilled, onRejected);
+    },
+  };
+
+  return testRequest;
+}
+
+/**
+ * Creates a test client for an app, router or request handler.
+ * @example
+ * const res = await request(app)
+ *   .post("/users")
+ *   .send({ name: "Ada" })
+ *   .expect(201)
+ *   .expect("Content-Type", /json/);
+ * @param {TestTarget} target - The app, router or handler under test
+ * @returns {TestClient} The test client
+ */
+export function request(target: TestTarget): TestClient {
+  const handle = (req: Request) =>
+    Promise.resolve(
+      typeof target === "function" ? target(req) : target.handle(req)
+    );
+  const jar = createCookieJar();
+  const start = (method: string) => (path: string) =>
+    createTestRequest(handle, jar, method, path);
+
+  return {
+    get: start("GET"),
+    post: start("POST"),
+    put: start("PUT"),
+    patch: start("PATCH"),
+    delete: start("DELETE"),
+    head: start("HEAD"),
+    options: start("OPTIONS"),
+
+    request(method: string, path: string) {
+      return createTestRequest(handle, jar, method, path);
+    },
+
+    cookies(path = "/") {
+      return jar.match(new URL(path, "http://localhost"));
+    },
+  };
+}
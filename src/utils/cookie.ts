@@ -0,0 +1,159 @@
+/**
+ * @file cookie.ts
+ * @description Helpers for parsing Cookie headers and serializing Set-Cookie headers.
+ * @author Sriram Sundar
+ */
+
+/**
+ * Attributes for a Set-Cookie header
+ */
+export interface CookieOptions {
+  /** Lifetime in milliseconds, converted to Max-Age in seconds */
+  maxAge?: number;
+  /** Absolute expiry date */
+  expires?: Date;
+  /** Path the cookie applies to (defaults to "/") */
+  path?: string;
+  /** Domain the cookie applies to */
+  domain?: string;
+  /** Only send the cookie over HTTPS */
+  secure?: boolean;
+  /** Hide the cookie from client-side scripts */
+  httpOnly?: boolean;
+  /** SameSite policy; true means "Strict" */
+  sameSite?: boolean | "strict" | "lax" | "none";
+  /** Cookie priority hint */
+  priority?: "low" | "medium" | "high";
+  /** Store the cookie in partitioned storage (CHIPS) */
+  partitioned?: boolean;
+  /** Encodes the cookie value (defaults to encodeURIComponent) */
+  encode?: (value: string) => string;
+}
+
+/**
+ * Matches valid cookie names and attribute values (RFC 6265 tokens)
+ */
+const TOKEN_PATTERN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+/**
+ * Matches valid characters for Path and Domain attribute values
+ */
+const ATTRIBUTE_PATTERN = /^[ -:<-~]*$/;
+
+/**
+ * Capitalizes an attribute value such as "lax" to "Lax"
+ * @param {string} value - The attribute value
+ * @returns {string} The capitalized value
+ */
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1).toLowerCase();
+}
+
+/**
+ * Serializes a cookie name, value and attributes into a Set-Cookie value
+ * @param {string} name - The cookie name
+ * @param {string} value - The cookie value
+ * @param {CookieOptions} [options={}] - Optional cookie attributes
+ * @returns {string} The Set-Cookie header value
+ * @throws {TypeError} If the name or an attribute is invalid
+ */
+export function serializeCookie(
+  name: string,
+  value: string,
+  options: CookieOptions = {}
+): string {
+  if (!TOKEN_PATTERN.test(name)) {
+    throw new TypeError(`Invalid cookie name: ${name}`);
+  }
+
+  const encode = options.encode ?? encodeURIComponent;
+  const parts = [`${name}=${encode(value)}`];
+
+  if (options.maxAge !== undefined) {
+    if (!Number.isFinite(options.maxAge)) {
+      throw new TypeError("Cookie maxAge must be a finite number");
+    }
+    parts.push(`Max-Age=${Math.floor(options.maxAge / 1000)}`);
+  }
+
+  if (options.domain) {
+    if (!ATTRIBUTE_PATTERN.test(options.domain)) {
+      throw new TypeError(`Invalid cookie domain: ${options.domain}`);
+    }
+    parts.push(`Domain=${options.domain}`);
+  }
+
+  const path = options.path ?? "/";
+  if (!ATTRIBUTE_PATTERN.test(path)) {
+    throw new TypeError(`Invalid cookie path: ${path}`);
+  }
+  parts.push(`Path=${path}`);
+
+  if (options.expires) {
+    parts.push(`Expires=${options.expires.toUTCString()}`);
+  }
+
+  if (options.httpOnly) {
+    parts.push("HttpOnly");
+  }
+
+  if (options.secure) {
+    parts.push("Secure");
+  }
+
+  if (options.partitioned) {
+    parts.push("Partitioned");
+  }
+
+  if (options.priority) {
+    parts.push(`Priority=${capitalize(options.priority)}`);
+  }
+
+  if (options.sameSite) {
+    const sameSite =
+      options.sameSite === true ? "Strict" : capitalize(options.sameSite);
+    parts.push(`SameSite=${sameSite}`);
+  }
+
+  return parts.join("; ");
+}
+
+/**
+ * Parses a Cookie header into a map of names to decoded values. The first
+ * occurrence of a name wins.
+ * @param {string | null} header - The Cookie header value
+ * @returns {Record<string, string>} The parsed cookies
+ */
+export function parseCookies(header: string | null): Record<string, string> {
+  const cookies: Record<string, string> = {};
+
+  if (!header) {
+    return cookies;
+  }
+
+  header.split(";").forEach((pair) => {
+    const eq = pair.indexOf("=");
+    if (eq === -1) {
+      return;
+    }
+
+    const name = pair.slice(0, eq).trim();
+    let value = pair.slice(eq + 1).trim();
+
+    if (!name || Object.hasOwn(cookies, name)) {
+      return;
+    }
+
+    if (value.startsWith('"') && value.endsWith('"')) {
+      value = value.slice(1, -1);
+    }
+
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  });
+
+  return cookies;
+}
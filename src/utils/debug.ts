@@ -0,0 +1,109 @@
+/**
+ * @file debug.ts
+ * @description Namespaced debug tracing, switched on with the DEBUG
+ * environment variable in the style of the debug package, e.g.
+ * `DEBUG=express:*` or `DEBUG=express:router,-express:route`.
+ * @author Sriram Sundar
+ */
+
+import { Logger } from "./logger.ts";
+
+/**
+ * Logs trace messages for a namespace when it is enabled
+ */
+export interface Debugger {
+  /** Logs the arguments with the namespace and the time since the last message */
+  (...args: unknown[]): void;
+  /** Whether DEBUG enables the namespace */
+  readonly enabled: boolean;
+  /** The namespace, e.g. "express:router" */
+  readonly namespace: string;
+}
+
+/**
+ * The DEBUG patterns, read once
+ */
+let patterns: { include: RegExp[]; exclude: RegExp[] } | undefined;
+
+/**
+ * Compiles a DEBUG pattern, where * matches any characters
+ * @param {string} pattern - The pattern
+ * @returns {RegExp} The regular expression
+ */
+function compilePattern(pattern: string): RegExp {
+  const source = pattern
+    .replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*?");
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Reads the patterns from the DEBUG environment variable. Without
+ * permission to read it, tracing stays off.
+ * @returns {Object} The included and excluded patterns
+ */
+function readPatterns(): { include: RegExp[]; exclude: RegExp[] } {
+  let value = "";
+
+  try {
+    value = Deno.env.get("DEBUG") ?? "";
+  } catch {
+    // No --allow-env permission
+  }
+
+  const include: RegExp[] = [];
+  const exclude: RegExp[] = [];
+
+  for (const pattern of value.split(/[\s,]+/).filter(Boolean)) {
+    if (pattern.startsWith("-")) {
+      exclude.push(compilePattern(pattern.slice(1)));
+    } else {
+      include.push(compilePattern(pattern));
+    }
+  }
+
+  return { include, exclude };
+}
+
+/**
+ * Checks whether DEBUG enables a namespace
+ * @param {string} namespace - The namespace
+ * @returns {boolean} True if a pattern includes it and none excludes it
+ */
+export function isDebugEnabled(namespace: string): boolean {
+  patterns ??= readPatterns();
+
+  return (
+    patterns.include.some((regexp) => regexp.test(namespace)) &&
+    !patterns.exclude.some((regexp) => regexp.test(namespace))
+  );
+}
+
+/**
+ * Creates a debugger for a namespace. Messages go to the logger's debug
+ * method and cost nothing beyond the call when the namespace is disabled.
+ * @param {string} namespace - The namespace, e.g. "express:router"
+ * @param {Logger} [logger=console] - Receives the messages
+ * @returns {Debugger} The debugger
+ */
+export function createDebug(
+  namespace: string,
+  logger: Logger = console
+): Debugger {
+  const enabled = isDebugEnabled(namespace);
+  let last = 0;
+
+  const debug = (...args: unknown[]) => {
+    if (!enabled) {
+      return;
+    }
+
+    const now = performance.now();
+    const elapsed = last === 0 ? 0 : now - last;
+    last = now;
+
+    logger.debug(namespace, ...args, `+${elapsed.toFixed(1)}ms`);
+  };
+
+  return Object.assign(debug, { enabled, namespace });
+}
@@ -0,0 +1,87 @@
+/**
+ * @file etag.ts
+ * @description Generates entity tags and checks conditional request headers
+ * to decide whether a client's cached copy is still fresh.
+ * @author Sriram Sundar
+ */
+
+/**
+ * Generates an ETag for a response body
+ */
+export type EtagFunction = (body: Uint8Array) => string | Promise<string>;
+
+/**
+ * Encodes bytes as base64
+ * @param {Uint8Array} bytes - The bytes to encode
+ * @returns {string} The base64 string
+ */
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+/**
+ * Creates an ETag generator from the body length and a SHA-1 hash of its bytes
+ * @param {boolean} weak - Whether to generate weak ETags
+ * @returns {EtagFunction} The ETag generator
+ */
+export function createEtagFunction(weak: boolean): EtagFunction {
+  return async (body) => {
+    const digest = await crypto.subtle.digest(
+      "SHA-1",
+      body as Uint8Array<ArrayBuffer>
+    );
+    const hash = toBase64(new Uint8Array(digest)).slice(0, 27);
+    const tag = `"${body.byteLength.toString(16)}-${hash}"`;
+
+    return weak ? `W/${tag}` : tag;
+  };
+}
+
+/**
+ * Checks whether an ETag appears in an If-None-Match style list, using weak
+ * comparison
+ * @param {string} header - The header value
+ * @param {string} etag - The current ETag
+ * @returns {boolean} True if the ETag matches
+ */
+export function etagMatches(header: string, etag: string): boolean {
+  const strip = (tag: string) => tag.trim().replace(/^W\//, "");
+
+  return header
+    .split(",")
+    .some((tag) => tag.trim() === "*" || strip(tag) === strip(etag));
+}
+
+/**
+ * Checks whether the client's cached copy is still fresh according to the
+ * request's If-None-Match and If-Modified-Since headers
+ * @param {Headers} reqHeaders - The request headers
+ * @param {Headers} resHeaders - The response headers holding ETag and Last-Modified
+ * @returns {boolean} True if a 304 Not Modified can be sent
+ */
+export function isFresh(reqHeaders: Headers, resHeaders: Headers): boolean {
+  const noneMatch = reqHeaders.get("If-None-Match");
+  const modifiedSince = reqHeaders.get("If-Modified-Since");
+
+  if (!noneMatch && !modifiedSince) {
+    return false;
+  }
+
+  if (
+    /(?:^|,)\s*no-cache\s*(?:,|$)/i.test(reqHeaders.get("Cache-Control") ?? "")
+  ) {
+    return false;
+  }
+
+  if (noneMatch) {
+    const etag = resHeaders.get("ETag");
+    return etag !== null && etagMatches(noneMatch, etag);
+  }
+
+  const since = Date.parse(modifiedSince ?? "");
+  const lastModified = Date.parse(resHeaders.get("Last-Modified") ?? "");
+
+  return (
+    !Number.isNaN(since) && !Number.isNaN(lastModified) && lastModified <= since
+  );
+}
@@ -0,0 +1,19 @@
+/**
+ * @file html.ts
+ * @description Helpers for producing HTML output.
+ * @author Sriram Sundar
+ */
+
+/**
+ * Escapes text for inclusion in HTML
+ * @param {string} str - The text to escape
+ * @returns {string} The escaped text
+ */
+export function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
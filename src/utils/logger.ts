@@ -0,0 +1,20 @@
+/**
+ * @file logger.ts
+ * @description The logger interface used for framework diagnostics. The
+ * global console satisfies it, as do most structured logging libraries.
+ * @author Sriram Sundar
+ */
+
+/**
+ * Receives framework diagnostics such as unhandled errors and warnings
+ */
+export interface Logger {
+  /** Logs debugging detail */
+  debug: (...args: unknown[]) => void;
+  /** Logs an informational message */
+  info: (...args: unknown[]) => void;
+  /** Logs a warning */
+  warn: (...args: unknown[]) => void;
+  /** Logs an error */
+  error: (...args: unknown[]) => void;
+}
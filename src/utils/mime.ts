@@ -0,0 +1,171 @@
+/**
+ * @file mime.ts
+ * @description Helpers for parsing and matching media types.
+ * @author Sriram Sundar
+ */
+
+/**
+ * A parsed Content-Type header
+ */
+export interface ContentType {
+  /** The lowercase media type, e.g. "application/json" */
+  type: string;
+
+  /** Media type parameters such as charset or boundary */
+  parameters: Record<string, string>;
+}
+
+/**
+ * Parses a Content-Type header into its media type and parameters
+ * @param {string | null} header - The header value
+ * @returns {ContentType | null} The parsed content type, or null if absent or invalid
+ */
+export function parseContentType(header: string | null): ContentType | null {
+  if (!header) {
+    return null;
+  }
+
+  const [type, ...params] = header.split(";");
+  const mediaType = type.trim().toLowerCase();
+
+  if (!/^[\w!#$&^.+-]+\/[\w!#$&^.+-]+$/.test(mediaType)) {
+    return null;
+  }
+
+  const parameters: Record<string, string> = {};
+
+  params.forEach((param) => {
+    const eq = param.indexOf("=");
+    if (eq === -1) {
+      return;
+    }
+
+    const name = param.slice(0, eq).trim().toLowerCase();
+    let value = param.slice(eq + 1).trim();
+
+    if (value.startsWith('"') && value.endsWith('"')) {
+      value = value.slice(1, -1).replace(/\\(.)/g, "$1");
+    }
+
+    parameters[name] = value;
+  });
+
+  return { type: mediaType, parameters };
+}
+
+/**
+ * Checks whether a media type matches a pattern. Patterns may use wildcards
+ * such as "text/*" or structured syntax suffixes such as "+json".
+ * @param {string} type - The media type to test
+ * @param {string} pattern - The pattern to match against
+ * @returns {boolean} True if the type matches the pattern
+ */
+export function typeMatches(type: string, pattern: string): boolean {
+  const normalized = pattern.startsWith("+")
+    ? `*/*${pattern}`
+    : pattern.toLowerCase();
+  const [patternMain, patternSub] = normalized.split("/");
+  const [typeMain, typeSub] = type.toLowerCase().split("/");
+
+  if (!patternSub || !typeSub) {
+    return false;
+  }
+
+  if (patternMain !== "*" && patternMain !== typeMain) {
+    return false;
+  }
+
+  if (patternSub === "*" || patternSub === typeSub) {
+    return true;
+  }
+
+  if (patternSub.startsWith("*+")) {
+    return typeSub.endsWith(patternSub.slice(1));
+  }
+
+  return false;
+}
+
+/**
+ * Map of file extensions to media types
+ */
+export const MIME_TYPES: Record<string, string> = {
+  html: "text/html",
+  htm: "text/html",
+  css: "text/css",
+  csv: "text/csv",
+  txt: "text/plain",
+  text: "text/plain",
+  md: "text/markdown",
+  xml: "application/xml",
+  js: "text/javascript",
+  mjs: "text/javascript",
+  json: "application/json",
+  map: "application/json",
+  jsonld: "application/ld+json",
+  webmanifest: "application/manifest+json",
+  wasm: "application/wasm",
+  pdf: "application/pdf",
+  zip: "application/zip",
+  gz: "application/gzip",
+  tar: "application/x-tar",
+  bin: "application/octet-stream",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+  svg: "image/svg+xml",
+  ico: "image/x-icon",
+  bmp: "image/bmp",
+  woff: "font/woff",
+  woff2: "font/woff2",
+  ttf: "font/ttf",
+  otf: "font/otf",
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  ogg: "audio/ogg",
+  mp4: "video/mp4",
+  webm: "video/webm",
+};
+
+/**
+ * Looks up the media type for a file extension or path
+ * @param {string} extOrPath - An extension ("json", ".json") or a file path
+ * @returns {string | undefined} The media type, or undefined if unknown
+ */
+export function lookupType(extOrPath: string): string | undefined {
+  const ext = extOrPath.slice(extOrPath.lastIndexOf(".") + 1).toLowerCase();
+  return MIME_TYPES[ext];
+}
+
+/**
+ * Builds a full Content-Type value, adding a UTF-8 charset for textual types
+ * @param {string} type - A media type, or an extension or shorthand such as "json"
+ * @returns {string} The Content-Type header value
+ */
+export function contentType(type: string): string {
+  const mediaType = type.includes("/")
+    ? type
+    : lookupType(type) ?? "application/octet-stream";
+
+  if (/charset=/i.test(mediaType) || !isTextual(mediaType)) {
+    return mediaType;
+  }
+
+  return `${mediaType}; charset=utf-8`;
+}
+
+/**
+ * Checks whether a media type carries text that should declare a charset
+ * @param {string} type - The media type
+ * @returns {boolean} True for text/* and JSON, XML or JavaScript types
+ */
+function isTextual(type: string): boolean {
+  const mediaType = type.split(";")[0].trim().toLowerCase();
+  return (
+    mediaType.startsWith("text/") ||
+    /[/+](json|xml|javascript)$/.test(mediaType)
+  );
+}
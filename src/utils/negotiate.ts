@@ -0,0 +1,246 @@
+/**
+ * @file negotiate.ts
+ * @description Content negotiation helpers for Accept, Accept-Language and
+ * Accept-Encoding headers.
+ * @author Sriram Sundar
+ */
+
+/**
+ * A single entry from an Accept-style header
+ */
+interface AcceptEntry {
+  /** The lowercase value, e.g. "text/html", "en-us" or "gzip" */
+  value: string;
+  /** The quality value between 0 and 1 */
+  q: number;
+  /** The position of the entry in the header */
+  index: number;
+}
+
+/**
+ * How closely an offered value matched an accept entry
+ */
+interface Match {
+  /** The quality value of the matching entry */
+  q: number;
+  /** Higher values mean a more specific match */
+  specificity: number;
+  /** The position of the matching entry in the header */
+  index: number;
+}
+
+/**
+ * Compares an offered value against an accept entry
+ */
+type Matcher = (offer: string, entry: string) => number;
+
+/**
+ * Parses an Accept-style header into entries with quality values
+ * @param {string} header - The header value
+ * @returns {AcceptEntry[]} The parsed entries
+ */
+function parseAccept(header: string): AcceptEntry[] {
+  return header
+    .split(",")
+    .map((part, index) => {
+      const [value, ...params] = part.split(";").map((s) => s.trim());
+      const qParam = params.find((param) => /^q=/i.test(param));
+      const q = qParam ? parseFloat(qParam.slice(2)) : 1;
+
+      return {
+        value: value.toLowerCase(),
+        q: Number.isNaN(q) ? 0 : q,
+        index,
+      };
+    })
+    .filter((entry) => entry.value !== "");
+}
+
+/**
+ * Finds the best accept entry matching an offered value
+ * @param {string} offer - The lowercase offered value
+ * @param {AcceptEntry[]} entries - The parsed accept entries
+ * @param {Matcher} matcher - Returns the specificity of a match, or -1
+ * @returns {Match | null} The best match, or null if nothing matched
+ */
+function bestMatch(
+  offer: string,
+  entries: AcceptEntry[],
+  matcher: Matcher
+): Match | null {
+  let best: Match | null = null;
+
+  entries.forEach((entry) => {
+    const specificity = matcher(offer, entry.value);
+
+    if (specificity < 0) {
+      return;
+    }
+
+    if (
+      !best ||
+      specificity > best.specificity ||
+      (specificity === best.specificity && entry.q > best.q)
+    ) {
+      best = { q: entry.q, specificity, index: entry.index };
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Orders offered values by preference according to the accept entries
+ * @param {string[]} offers - The offered values in server preference order
+ * @param {AcceptEntry[]} entries - The parsed accept entries
+ * @param {Matcher} matcher - Returns the specificity of a match, or -1
+ * @param {Function} [normalize] - Maps an offer to the form compared with entries
+ * @returns {string[]} The acceptable offers, most preferred first
+ */
+function preferred(
+  offers: string[],
+  entries: AcceptEntry[],
+  matcher: Matcher,
+  normalize: (offer: string) => string = (offer) => offer
+): string[] {
+  return offers
+    .map((offer, order) => ({
+      offer,
+      order,
+      match: bestMatch(normalize(offer).toLowerCase(), entries, matcher),
+    }))
+    .filter(
+      (item): item is { offer: string; order: number; match: Match } =>
+        item.match !== null && item.match.q > 0
+    )
+    .sort(
+      (a, b) =>
+        b.match.q - a.match.q ||
+        b.match.specificity - a.match.specificity ||
+        a.match.index - b.match.index ||
+        a.order - b.order
+    )
+    .map((item) => item.offer);
+}
+
+/**
+ * Lists the values of an accept header in preference order
+ * @param {AcceptEntry[]} entries - The parsed accept entries
+ * @returns {string[]} The acceptable values, most preferred first
+ */
+function listAccepted(entries: AcceptEntry[]): string[] {
+  return entries
+    .filter((entry) => entry.q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index)
+    .map((entry) => entry.value);
+}
+
+/**
+ * Matches media types, allowing wildcards in the accept entry
+ * @param {string} offer - The offered media type
+ * @param {string} entry - The accepted media range
+ * @returns {number} The match specificity, or -1 if it does not match
+ */
+function matchMediaType(offer: string, entry: string): number {
+  const [offerType, offerSub] = offer.split(";")[0].trim().split("/");
+  const [entryType, entrySub] = entry.split("/");
+
+  if (entryType !== "*" && entryType !== offerType) {
+    return -1;
+  }
+
+  if (entrySub !== "*" && entrySub !== offerSub) {
+    return -1;
+  }
+
+  return (entryType === "*" ? 0 : 2) + (entrySub === "*" ? 0 : 1);
+}
+
+/**
+ * Matches language tags, allowing prefix matches in either direction
+ * @param {string} offer - The offered language tag
+ * @param {string} entry - The accepted language range
+ * @returns {number} The match specificity, or -1 if it does not match
+ */
+function matchLanguage(offer: string, entry: string): number {
+  if (entry === offer) {
+    return 3;
+  }
+  if (offer.startsWith(entry + "-")) {
+    return 2;
+  }
+  if (entry.startsWith(offer + "-")) {
+    return 1;
+  }
+  return entry === "*" ? 0 : -1;
+}
+
+/**
+ * Matches content codings exactly or through a wildcard
+ * @param {string} offer - The offered coding
+ * @param {string} entry - The accepted coding
+ * @returns {number} The match specificity, or -1 if it does not match
+ */
+function matchEncoding(offer: string, entry: string): number {
+  if (entry === offer) {
+    return 1;
+  }
+  return entry === "*" ? 0 : -1;
+}
+
+/**
+ * Negotiates media types against an Accept header
+ * @param {string | null} header - The Accept header value
+ * @param {string[]} offers - The offered media types in server preference order
+ * @param {Function} [normalize] - Maps an offer, such as "json", to a media type
+ * @returns {string[]} The acceptable offers (or accepted types if none offered)
+ */
+export function preferredMediaTypes(
+  header: string | null,
+  offers: string[] = [],
+  normalize?: (offer: string) => string
+): string[] {
+  const entries = parseAccept(header ?? "*/*");
+  return offers.length === 0
+    ? listAccepted(entries)
+    : preferred(offers, entries, matchMediaType, normalize);
+}
+
+/**
+ * Negotiates languages against an Accept-Language header
+ * @param {string | null} header - The Accept-Language header value
+ * @param {string[]} offers - The offered language tags in server preference order
+ * @returns {string[]} The acceptable offers (or accepted languages if none offered)
+ */
+export function preferredLanguages(
+  header: string | null,
+  offers: string[] = []
+): string[] {
+  const entries = parseAccept(header ?? "*");
+  return offers.length === 0
+    ? listAccepted(entries)
+    : preferred(offers, entries, matchLanguage);
+}
+
+/**
+ * Negotiates content codings against an Accept-Encoding header. "identity"
+ * is acceptable unless the header explicitly refuses it.
+ * @param {string | null} header - The Accept-Encoding header value
+ * @param {string[]} offers - The offered codings in server preference order
+ * @returns {string[]} The acceptable offers (or accepted codings if none offered)
+ */
+export function preferredEncodings(
+  header: string | null,
+  offers: string[] = []
+): string[] {
+  const entries = parseAccept(header ?? "");
+
+  if (!entries.some((entry) => ["identity", "*"].includes(entry.value))) {
+    const minQ = Math.min(1, ...entries.map((entry) => entry.q || 1));
+    entries.push({ value: "identity", q: minQ, index: entries.length });
+  }
+
+  return offers.length === 0
+    ? listAccepted(entries)
+    : preferred(offers, entries, matchEncoding);
+}
@@ -0,0 +1,162 @@
+/**
+ * @file proxy.ts
+ * @description Compiles the "trust proxy" setting into a predicate deciding
+ * which addresses in the X-Forwarded-For chain are trusted proxies.
+ * @author Sriram Sundar
+ */
+
+/**
+ * Decides whether the address at a hop (0 is the socket peer) is trusted
+ */
+export type TrustFunction = (addr: string, hop: number) => boolean;
+
+/**
+ * A parsed address range
+ */
+interface Subnet {
+  /** The address family, 4 or 6 */
+  family: 4 | 6;
+  /** The network address as an integer */
+  network: bigint;
+  /** The prefix length in bits */
+  prefix: number;
+}
+
+/**
+ * Subnets available by name in the "trust proxy" setting
+ */
+const NAMED_SUBNETS: Record<string, string[]> = {
+  loopback: ["127.0.0.1/8", "::1/128"],
+  linklocal: ["169.254.0.0/16", "fe80::/10"],
+  uniquelocal: ["10.0.0.0/8", "172.16.0.0/12", "192.168.0.0/16", "fc00::/7"],
+};
+
+/**
+ * Parses an IPv4 or IPv6 address into its family and integer value.
+ * IPv4-mapped IPv6 addresses are treated as IPv4.
+ * @param {string} addr - The address
+ * @returns {{ family: 4 | 6, value: bigint } | null} The parsed address, or null if invalid
+ */
+function parseAddress(addr: string): { family: 4 | 6; value: bigint } | null {
+  const address = addr.replace(/^\[|\]$/g, "").replace(/%.*$/, "");
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+
+  if (mapped || /^\d+\.\d+\.\d+\.\d+$/.test(address)) {
+    const octets = (mapped ? mapped[1] : address).split(".").map(Number);
+    if (octets.some((octet) => octet > 255)) {
+      return null;
+    }
+    const value = octets.reduce(
+      (acc, octet) => (acc << 8n) + BigInt(octet),
+      0n
+    );
+    return { family: 4, value };
+  }
+
+  if (!address.includes(":")) {
+    return null;
+  }
+
+  const [head, tail = ""] = address.split("::");
+  const headParts = head ? head.split(":") : [];
+  const tailParts = tail ? tail.split(":") : [];
+  const missing = 8 - headParts.length - tailParts.length;
+
+  if (missing < 0 || (!address.includes("::") && missing !== 0)) {
+    return null;
+  }
+
+  const parts = [...headParts, ...Array(missing).fill("0"), ...tailParts];
+
+  if (parts.some((part) => !/^[0-9a-f]{1,4}$/i.test(part))) {
+    return null;
+  }
+
+  const value = parts.reduce(
+    (acc, part) => (acc << 16n) + BigInt(parseInt(part, 16)),
+    0n
+  );
+  return { family: 6, value };
+}
+
+/**
+ * Parses an address or CIDR range such as "10.0.0.0/8"
+ * @param {string} range - The address or range
+ * @returns {Subnet} The parsed subnet
+ * @throws {TypeError} If the range is not a valid address or CIDR range
+ */
+function parseSubnet(range: string): Subnet {
+  const [addr, bits] = range.trim().split("/");
+  const parsed = parseAddress(addr);
+
+  if (!parsed) {
+    throw new TypeError(`Invalid IP address: ${addr}`);
+  }
+
+  const size = parsed.family === 4 ? 32 : 128;
+  const prefix = bits === undefined ? size : Number(bits);
+
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > size) {
+    throw new TypeError(`Invalid range prefix: ${range}`);
+  }
+
+  const shift = BigInt(size - prefix);
+  return {
+    family: parsed.family,
+    network: (parsed.value >> shift) << shift,
+    prefix,
+  };
+}
+
+/**
+ * Checks whether an address falls inside a subnet
+ * @param {string} addr - The address
+ * @param {Subnet} subnet - The subnet
+ * @returns {boolean} True if the address is in the subnet
+ */
+function inSubnet(addr: string, subnet: Subnet): boolean {
+  const parsed = parseAddress(addr);
+
+  if (!parsed || parsed.family !== subnet.family) {
+    return false;
+  }
+
+  const shift = BigInt((subnet.family === 4 ? 32 : 128) - subnet.prefix);
+  return (parsed.value >> shift) << shift === subnet.network;
+}
+
+/**
+ * Compiles a "trust proxy" setting into a trust function. Accepts a boolean,
+ * a hop count, addresses, CIDR ranges or the names "loopback", "linklocal"
+ * and "uniquelocal" (as an array or a comma-separated string), or a function.
+ * @param {boolean | number | string | string[] | TrustFunction} value - The setting value
+ * @returns {TrustFunction} The trust function
+ */
+export function compileTrust(
+  value: boolean | number | string | string[] | TrustFunction
+): TrustFunction {
+  if (typeof value === "function") {
+    return value;
+  }
+
+  if (value === true) {
+    return () => true;
+  }
+
+  if (typeof value === "number") {
+    return (_addr, hop) => hop < value;
+  }
+
+  if (value === false) {
+    return () => false;
+  }
+
+  const ranges = typeof value === "string" ? value.split(",") : value;
+  const subnets = ranges
+    .map((range) => range.trim())
+    .filter(Boolean)
+    .flatMap((range) => NAMED_SUBNETS[range] ?? [range])
+    .map(parseSubnet);
+
+  return (addr) => subnets.some((subnet) => inSubnet(addr, subnet));
+}
@@ -0,0 +1,210 @@
+/**
+ * @file query.ts
+ * @description Parses URL-encoded key/value strings, optionally expanding
+ * bracket notation (`a[b]=1`, `list[]=1`) into nested objects and arrays.
+ * @author Sriram Sundar
+ */
+
+/**
+ * A parsed query value
+ */
+export type QueryValue = string | QueryValue[] | { [key: string]: QueryValue };
+
+/**
+ * A parsed query object
+ */
+export type ParsedQuery = Record<string, QueryValue>;
+
+/**
+ * Options used when parsing a query string
+ */
+export interface QueryParseOptions {
+  /** Whether to expand bracket notation into nested objects and arrays */
+  extended?: boolean;
+  /** Maximum number of parameters to parse */
+  parameterLimit?: number;
+  /** Maximum nesting depth for bracket notation */
+  depth?: number;
+}
+
+/**
+ * Thrown when a query string has more parameters than the parse limit
+ */
+export class ParameterLimitError extends RangeError {
+  /** The limit that was exceeded */
+  limit: number;
+
+  /**
+   * Creates a new ParameterLimitError
+   * @param {number} limit - The limit that was exceeded
+   */
+  constructor(limit: number) {
+    super(`Too many parameters: more than ${limit}`);
+    this.name = "ParameterLimitError";
+    this.limit = limit;
+  }
+}
+
+/**
+ * Keys that must never be assigned to avoid prototype pollution
+ */
+const UNSAFE_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+/**
+ * Largest index that is expanded into an array rather than an object key
+ */
+const ARRAY_LIMIT = 20;
+
+/**
+ * Splits a bracketed key like `a[b][]` into its segments
+ * @param {string} key - The raw key
+ * @param {number} depth - The maximum nesting depth
+ * @returns {string[]} The key segments
+ */
+function splitKey(key: string, depth: number): string[] {
+  const open = key.indexOf("[");
+
+  if (open <= 0) {
+    return [key];
+  }
+
+  const segments = [key.slice(0, open)];
+  const pattern = /\[([^[\]]*)\]/g;
+  let rest = key.slice(open);
+  let match: RegExpExecArray | null;
+
+  while (segments.length <= depth && (match = pattern.exec(rest))) {
+    if (match.index !== 0) {
+      break;
+    }
+    segments.push(match[1]);
+    rest = rest.slice(match[0].length);
+    pattern.lastIndex = 0;
+  }
+
+  if (rest) {
+    segments.push(rest);
+  }
+
+  return segments;
+}
+
+/**
+ * Checks whether a segment addresses an array index
+ * @param {string} segment - The key segment
+ * @returns {boolean} True if the segment is empty or a small integer
+ */
+function isIndex(segment: string): boolean {
+  return (
+    segment === "" || (/^\d+$/.test(segment) && Number(segment) <= ARRAY_LIMIT)
+  );
+}
+
+/**
+ * Reads a container's own value for a key, ignoring inherited members such
+ * as toString
+ * @param {Record<string, QueryValue>} container - The object or array
+ * @param {string} key - The key
+ * @returns {QueryValue | undefined} The value, or undefined if the key is not set
+ */
+function ownValue(
+  container: Record<string, QueryValue>,
+  key: string
+): QueryValue | undefined {
+  return Object.hasOwn(container, key) ? container[key] : undefined;
+}
+
+/**
+ * Assigns a value into a nested container following the key segments
+ * @param {ParsedQuery} root - The object being built
+ * @param {string[]} segments - The key segments
+ * @param {string} value - The decoded value
+ */
+function assign(root: ParsedQuery, segments: string[], value: string): void {
+  if (segments.some((segment) => UNSAFE_KEYS.has(segment))) {
+    return;
+  }
+
+  let target: QueryValue[] | Record<string, QueryValue> = root;
+
+  segments.forEach((segment, i) => {
+    const container = target as Record<string, QueryValue>;
+    const key =
+      Array.isArray(target) && segment === "" ? String(target.length) : segment;
+
+    if (i === segments.length - 1) {
+      const existing = ownValue(container, key);
+      if (existing === undefined) {
+        container[key] = value;
+      } else if (Array.isArray(existing)) {
+        existing.push(value);
+      } else {
+        container[key] = [existing, value];
+      }
+      return;
+    }
+
+    const nextSegment = segments[i + 1];
+    let child = ownValue(container, key);
+
+    if (child === undefined || typeof child === "string") {
+      child = isIndex(nextSegment) ? [] : {};
+      container[key] = child;
+    } else if (Array.isArray(child) && !isIndex(nextSegment)) {
+      child = Object.fromEntries(child.entries());
+      container[key] = child;
+    }
+
+    target = child;
+  });
+}
+
+/**
+ * Decodes a URL-encoded component, treating "+" as a space
+ * @param {string} str - The encoded component
+ * @returns {string} The decoded component, or the input if it is malformed
+ */
+function decode(str: string): string {
+  const replaced = str.replace(/\+/g, " ");
+  try {
+    return decodeURIComponent(replaced);
+  } catch {
+    return replaced;
+  }
+}
+
+/**
+ * Parses a URL-encoded string into an object. Repeated keys become arrays.
+ * @param {string} input - The query string, with or without a leading "?"
+ * @param {QueryParseOptions} [options={}] - Optional parse options
+ * @returns {ParsedQuery} The parsed object
+ * @throws {ParameterLimitError} If the input has more parameters than the limit
+ */
+export function parseQuery(
+  input: string,
+  options: QueryParseOptions = {}
+): ParsedQuery {
+  const { extended = true, parameterLimit = 1000, depth = 5 } = options;
+  const result: ParsedQuery = {};
+  const source = input.startsWith("?") ? input.slice(1) : input;
+
+  if (!source) {
+    return result;
+  }
+
+  const pairs = source.split("&").filter(Boolean);
+
+  if (pairs.length > parameterLimit) {
+    throw new ParameterLimitError(parameterLimit);
+  }
+
+  pairs.forEach((pair) => {
+    const eq = pair.indexOf("=");
+    const key = decode(eq === -1 ? pair : pair.slice(0, eq));
+    const value = eq === -1 ? "" : decode(pair.slice(eq + 1));
+
+    assign(result, extended ? splitKey(key, depth) : [key], value);
+  });
+
+  return result;
+}
@@ -0,0 +1,116 @@
+/**
+ * @file sign.ts
+ * @description Signs values with HMAC-SHA256 through WebCrypto and verifies
+ * them, so values handed to clients such as cookies cannot be forged.
+ * @author Sriram Sundar
+ */
+
+/**
+ * Imported HMAC keys by secret
+ */
+const keys = new Map<string, Promise<CryptoKey>>();
+
+/**
+ * Imports a secret as an HMAC-SHA256 key, reusing earlier imports
+ * @param {string} secret - The secret
+ * @returns {Promise<CryptoKey>} The key
+ */
+function importKey(secret: string): Promise<CryptoKey> {
+  let key = keys.get(secret);
+
+  if (!key) {
+    key = crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode(secret),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign", "verify"]
+    );
+    keys.set(secret, key);
+  }
+
+  return key;
+}
+
+/**
+ * Encodes bytes as unpadded base64url
+ * @param {Uint8Array} bytes - The bytes to encode
+ * @returns {string} The base64url string
+ */
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Decodes unpadded base64url
+ * @param {string} value - The base64url string
+ * @returns {Uint8Array | null} The bytes, or null if the value is malformed
+ */
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> | null {
+  try {
+    const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Appends an HMAC signature to a value
+ * @param {string} value - The value to sign
+ * @param {string} secret - The signing secret
+ * @returns {Promise<string>} The value followed by "." and its signature
+ */
+export async function signValue(
+  value: string,
+  secret: string
+): Promise<string> {
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await importKey(secret),
+    new TextEncoder().encode(value)
+  );
+
+  return `${value}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verifies a signed value against one or more secrets. Listing old secrets
+ * after the current one lets them be rotated without invalidating values
+ * signed before.
+ * @param {string} signed - The value followed by "." and its signature
+ * @param {string | string[]} secrets - The secrets to try
+ * @returns {Promise<string | false>} The original value, or false if no secret matches
+ */
+export async function unsignValue(
+  signed: string,
+  secrets: string | string[]
+): Promise<string | false> {
+  const dot = signed.lastIndexOf(".");
+  const signature = dot === -1 ? null : fromBase64Url(signed.slice(dot + 1));
+
+  if (!signature) {
+    return false;
+  }
+
+  const value = signed.slice(0, dot);
+  const data = new TextEncoder().encode(value);
+
+  for (const secret of Array.isArray(secrets) ? secrets : [secrets]) {
+    if (
+      await crypto.subtle.verify(
+        "HMAC",
+        await importKey(secret),
+        signature,
+        data
+      )
+    ) {
+      return value;
+    }
+  }
+
+  return false;
+}
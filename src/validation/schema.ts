@@ -0,0 +1,603 @@
+/**
+ * @file schema.ts
+ * @description A small schema builder for validating request input. Schemas
+ * coerce the strings found in params, query strings and headers into the
+ * declared types, and implement Standard Schema so they can be used anywhere
+ * a Standard Schema is accepted.
+ * @author Sriram Sundar
+ */
+
+import {
+  InferOutput,
+  JsonSchema,
+  StandardIssue,
+  StandardJsonSchemaV1,
+  StandardResult,
+  StandardSchemaProps,
+  StandardSchemaV1,
+} from "./standard.ts";
+
+/**
+ * Validates a value synchronously
+ */
+type Check<T> = (value: unknown) => StandardResult<T>;
+
+/**
+ * A schema built with `v`, validating input into a `T`. Schemas also
+ * describe themselves as JSON Schema for API documentation.
+ */
+export interface Schema<T>
+  extends StandardSchemaV1<unknown, T>,
+    StandardJsonSchemaV1 {
+  /** The Standard Schema properties, with a synchronous validate */
+  readonly "~standard": Omit<StandardSchemaProps<unknown, T>, "validate"> &
+    StandardJsonSchemaV1["~standard"] & {
+      readonly validate: Check<T>;
+    };
+
+  /**
+   * Allows the value to be missing.
+   * @returns {Schema} A schema accepting undefined
+   */
+  optional: () => Schema<T | undefined>;
+
+  /**
+   * Uses a fallback when the value is missing.
+   * @param {T} value - The fallback value
+   * @returns {Schema} A schema that fills in the fallback
+   */
+  default: (value: T) => Schema<T>;
+
+  /**
+   * Adds a description to the JSON Schema.
+   * @param {string} description - The description
+   * @returns {Schema} The described schema
+   */
+  describe: (description: string) => Schema<T>;
+}
+
+/**
+ * A string schema with length and format checks
+ */
+export interface StringSchema extends Schema<string> {
+  /**
+   * Requires at least a number of characters.
+   * @param {number} length - The minimum length
+   * @param {string} [message] - The issue message
+   * @returns {StringSchema} The refined schema
+   */
+  min: (length: number, message?: string) => StringSchema;
+
+  /**
+   * Allows at most a number of characters.
+   * @param {number} length - The maximum length
+   * @param {string} [message] - The issue message
+   * @returns {StringSchema} The refined schema
+   */
+  max: (length: number, message?: string) => StringSchema;
+
+  /**
+   * Requires the string to match a pattern.
+   * @param {RegExp} regex - The pattern
+   * @param {string} [message] - The issue message
+   * @returns {StringSchema} The refined schema
+   */
+  pattern: (regex: RegExp, message?: string) => StringSchema;
+
+  /**
+   * Requires an email address.
+   * @param {string} [message] - The issue message
+   * @returns {StringSchema} The refined schema
+   */
+  email: (message?: string) => StringSchema;
+
+  /**
+   * Trims whitespace before later checks run.
+   * @returns {StringSchema} The transformed schema
+   */
+  trim: () => StringSchema;
+}
+
+/**
+ * A number schema with range checks. Numeric strings are coerced.
+ */
+export interface NumberSchema extends Schema<number> {
+  /**
+   * Requires an integer.
+   * @param {string} [message] - The issue message
+   * @returns {NumberSchema} The refined schema
+   */
+  int: (message?: string) => NumberSchema;
+
+  /**
+   * Requires at least a value.
+   * @param {number} value - The minimum
+   * @param {string} [message] - The issue message
+   * @returns {NumberSchema} The refined schema
+   */
+  min: (value: number, message?: string) => NumberSchema;
+
+  /**
+   * Allows at most a value.
+   * @param {number} value - The maximum
+   * @param {string} [message] - The issue message
+   * @returns {NumberSchema} The refined schema
+   */
+  max: (value: number, message?: string) => NumberSchema;
+}
+
+/**
+ * An array schema with length checks. A single value is wrapped in an array,
+ * so `?tag=a` and `?tag=a&tag=b` both validate.
+ */
+export interface ArraySchema<T> extends Schema<T[]> {
+  /**
+   * Requires at least a number of items.
+   * @param {number} length - The minimum length
+   * @param {string} [message] - The issue message
+   * @returns {ArraySchema} The refined schema
+   */
+  min: (length: number, message?: string) => ArraySchema<T>;
+
+  /**
+   * Allows at most a number of items.
+   * @param {number} length - The maximum length
+   * @param {string} [message] - The issue message
+   * @returns {ArraySchema} The refined schema
+   */
+  max: (length: number, message?: string) => ArraySchema<T>;
+}
+
+/**
+ * The schemas for each key of an object. Only the Standard Schema
+ * properties are required, so schemas of any output type fit.
+ */
+export type Shape = Record<string, Pick<Schema<unknown>, "~standard">>;
+
+/**
+ * Flattens an intersection into a single object type
+ */
+type Simplify<T> = { [K in keyof T]: T[K] } & unknown;
+
+/**
+ * The output of an object schema, with keys whose value may be undefined
+ * made optional
+ */
+export type ObjectOutput<S extends Shape> = Simplify<
+  {
+    [K in keyof S as undefined extends Infer<S[K]> ? never : K]: Infer<S[K]>;
+  } & {
+    [K in keyof S as undefined extends Infer<S[K]> ? K : never]?: Infer<S[K]>;
+  }
+>;
+
+/**
+ * The output type of a schema
+ */
+export type Infer<S extends StandardSchemaV1> = InferOutput<S>;
+
+/**
+ * Matches a reasonable email address
+ */
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Creates a result with a single issue at the value itself
+ * @param {string} message - The issue message
+ * @returns {StandardResult<never>} The failed result
+ */
+function fail(message: string): StandardResult<never> {
+  return { issues: [{ message }] };
+}
+
+/**
+ * Prefixes issue paths with the key they were found under
+ * @param {ReadonlyArray<StandardIssue>} issues - The nested issues
+ * @param {PropertyKey} key - The key of the nested value
+ * @returns {StandardIssue[]} The issues with prefixed paths
+ */
+function prefixIssues(
+  issues: ReadonlyArray<StandardIssue>,
+  key: PropertyKey
+): StandardIssue[] {
+  return issues.map((issue) => ({
+    ...issue,
+    path: [key, ...(issue.path ?? [])],
+  }));
+}
+
+/**
+ * Creates a check for a primitive type that reports missing values as
+ * required
+ * @param {string} expected - Describes the type for issue messages
+ * @param {Function} coerce - Returns the coerced value, or undefined if the value is invalid
+ * @returns {Check} The check
+ */
+function primitive<T>(
+  expected: string,
+  coerce: (value: unknown) => T | undefined
+): Check<T> {
+  return (value) => {
+    if (value === undefined) {
+      return fail("Required");
+    }
+    const coerced = coerce(value);
+    return coerced === undefined
+      ? fail(`Expected ${expected}`)
+      : { value: coerced };
+  };
+}
+
+/**
+ * Adds a test to a check, run on the value the check produced
+ * @param {Check} check - The check to refine
+ * @param {Function} test - Returns true for valid values
+ * @param {string} message - The issue message for invalid values
+ * @returns {Check} The refined check
+ */
+function refine<T>(
+  check: Check<T>,
+  test: (value: T) => boolean,
+  message: string
+): Check<T> {
+  return (value) => {
+    const result = check(value);
+    if (result.issues || test(result.value)) {
+      return result;
+    }
+    return fail(message);
+  };
+}
+
+/**
+ * Checks whether a schema accepts a missing value. Schemas that only
+ * validate asynchronously are treated as requiring one.
+ * @param {StandardSchemaV1} schema - The schema
+ * @returns {boolean} True if undefined is valid
+ */
+export function isOptional(schema: StandardSchemaV1): boolean {
+  const result = schema["~standard"].validate(undefined);
+  return !(result instanceof Promise) && !result.issues;
+}
+
+/**
+ * Converts a schema to JSON Schema. Schemas that do not implement Standard
+ * JSON Schema are described as accepting anything.
+ * @param {StandardSchemaV1} schema - The schema
+ * @param {"input" | "output"} [io="input"] - Whether to describe the accepted input or the validated output
+ * @returns {JsonSchema} The JSON Schema
+ */
+export function toJsonSchema(
+  schema: StandardSchemaV1,
+  io: "input" | "output" = "input"
+): JsonSchema {
+  const converter = (
+    schema["~standard"] as Partial<StandardJsonSchemaV1["~standard"]>
+  ).jsonSchema;
+  return converter ? converter[io]({ target: "draft-2020-12" }) : {};
+}
+
+/**
+ * Creates the methods shared by every schema
+ * @param {Check} check - Validates the value
+ * @param {JsonSchema} json - Describes the schema as JSON Schema
+ * @returns {Schema} The schema
+ */
+function createSchema<T>(check: Check<T>, json: JsonSchema): Schema<T> {
+  const describe = () => structuredClone(json);
+
+  return {
+    "~standard": {
+      version: 1,
+      vendor: "deno-express",
+      validate: check,
+      jsonSchema: { input: describe, output: describe },
+    },
+
+    optional() {
+      return createSchema<T | undefined>(
+        (value) => (value === undefined ? { value: undefined } : check(value)),
+        json
+      );
+    },
+
+    default(fallback: T) {
+      return createSchema<T>(
+        (value) =>
+          value === undefined
+            ? { value: structuredClone(fallback) }
+            : check(value),
+        { ...json, default: fallback }
+      );
+    },
+
+    describe(description: string) {
+      return createSchema(check, { ...json, description });
+    },
+  };
+}
+
+/**
+ * Creates a string schema around a check
+ * @param {Check<string>} check - Validates the value
+ * @param {JsonSchema} [json] - Describes the schema as JSON Schema
+ * @returns {StringSchema} The schema
+ */
+function createStringSchema(
+  check: Check<string>,
+  json: JsonSchema = { type: "string" }
+): StringSchema {
+  const refined = (
+    test: (value: string) => boolean,
+    message: string,
+    keywords: JsonSchema
+  ) =>
+    createStringSchema(refine(check, test, message), { ...json, ...keywords });
+
+  return {
+    ...createSchema(check, json),
+    min: (length, message = `Must be at least ${length} characters`) =>
+      refined((value) => value.length >= length, message, {
+        minLength: length,
+      }),
+    max: (length, message = `Must be at most ${length} characters`) =>
+      refined((value) => value.length <= length, message, {
+        maxLength: length,
+      }),
+    pattern: (regex, message = `Must match ${regex}`) =>
+      refined((value) => regex.test(value), message, {
+        pattern: regex.source,
+      }),
+    email: (message = "Must be an email address") =>
+      refined((value) => EMAIL_PATTERN.test(value), message, {
+        format: "email",
+      }),
+    trim: () =>
+      createStringSchema((value) => {
+        const result = check(value);
+        return result.issues ? result : { value: result.value.trim() };
+      }, json),
+  };
+}
+
+/**
+ * Creates a number schema around a check
+ * @param {Check<number>} check - Validates the value
+ * @param {JsonSchema} [json] - Describes the schema as JSON Schema
+ * @returns {NumberSchema} The schema
+ */
+function createNumberSchema(
+  check: Check<number>,
+  json: JsonSchema = { type: "number" }
+): NumberSchema {
+  const refined = (
+    test: (value: number) => boolean,
+    message: string,
+    keywords: JsonSchema
+  ) =>
+    createNumberSchema(refine(check, test, message), { ...json, ...keywords });
+
+  return {
+    ...createSchema(check, json),
+    int: (message = "Must be an integer") =>
+      refined((value) => Number.isInteger(value), message, {
+        type: "integer",
+      }),
+    min: (min, message = `Must be at least ${min}`) =>
+      refined((value) => value >= min, message, { minimum: min }),
+    max: (max, message = `Must be at most ${max}`) =>
+      refined((value) => value <= max, message, { maximum: max }),
+  };
+}
+
+/**
+ * Creates an array schema around a check
+ * @param {Check} check - Validates the value
+ * @param {JsonSchema} json - Describes the schema as JSON Schema
+ * @returns {ArraySchema} The schema
+ */
+function createArraySchema<T>(
+  check: Check<T[]>,
+  json: JsonSchema
+): ArraySchema<T> {
+  const refined = (
+    test: (value: T[]) => boolean,
+    message: string,
+    keywords: JsonSchema
+  ) =>
+    createArraySchema(refine(check, test, message), { ...json, ...keywords });
+
+  return {
+    ...createSchema(check, json),
+    min: (length, message = `Must have at least ${length} items`) =>
+      refined((value) => value.length >= length, message, {
+        minItems: length,
+      }),
+    max: (length, message = `Must have at most ${length} items`) =>
+      refined((value) => value.length <= length, message, {
+        maxItems: length,
+      }),
+  };
+}
+
+/**
+ * Describes an object shape as JSON Schema
+ * @param {Shape} shape - The schema for each key
+ * @returns {JsonSchema} The JSON Schema
+ */
+function objectJsonSchema(shape: Shape): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, schema] of Object.entries(shape)) {
+    properties[key] = toJsonSchema(schema);
+    if (!isOptional(schema)) {
+      required.push(key);
+    }
+  }
+
+  return required.length > 0
+    ? { type: "object", properties, required }
+    : { type: "object", properties };
+}
+
+/**
+ * Builders for request schemas, e.g.
+ * `v.object({ page: v.number().int().min(1).default(1) })`
+ */
+export const v = {
+  /**
+   * Creates a schema for strings.
+   * @returns {StringSchema} The schema
+   */
+  string(): StringSchema {
+    return createStringSchema(
+      primitive("a string", (value) =>
+        typeof value === "string" ? value : undefined
+      )
+    );
+  },
+
+  /**
+   * Creates a schema for finite numbers, coercing numeric strings.
+   * @returns {NumberSchema} The schema
+   */
+  number(): NumberSchema {
+    return createNumberSchema(
+      primitive("a number", (value) => {
+        const number =
+          typeof value === "string" && value.trim() !== ""
+            ? Number(value)
+            : value;
+        return typeof number === "number" && Number.isFinite(number)
+          ? number
+          : undefined;
+      })
+    );
+  },
+
+  /**
+   * Creates a schema for booleans, coercing "true"/"false" and "1"/"0".
+   * @returns {Schema<boolean>} The schema
+   */
+  boolean(): Schema<boolean> {
+    return createSchema(
+      primitive("a boolean", (value) => {
+        if (typeof value === "boolean") {
+          return value;
+        }
+        if (value === "true" || value === "1") {
+          return true;
+        }
+        if (value === "false" || value === "0") {
+          return false;
+        }
+        return undefined;
+      }),
+      { type: "boolean" }
+    );
+  },
+
+  /**
+   * Creates a schema for dates, coercing date strings and timestamps.
+   * @returns {Schema<Date>} The schema
+   */
+  date(): Schema<Date> {
+    return createSchema(
+      primitive("a date", (value) => {
+        const date =
+          value instanceof Date
+            ? value
+            : typeof value === "string" || typeof value === "number"
+            ? new Date(value)
+            : undefined;
+        return date && !isNaN(date.getTime()) ? date : undefined;
+      }),
+      { type: "string", format: "date-time" }
+    );
+  },
+
+  /**
+   * Creates a schema for one of a fixed set of values. Numeric strings are
+   * coerced when the set contains numbers.
+   * @param {Array<string | number>} values - The allowed values
+   * @returns {Schema} The schema
+   */
+  enum<const T extends ReadonlyArray<string | number>>(
+    values: T
+  ): Schema<T[number]> {
+    return createSchema(
+      primitive(`one of: ${values.join(", ")}`, (value) =>
+        values.find((allowed) => allowed === value || String(allowed) === value)
+      ),
+      { enum: [...values] }
+    );
+  },
+
+  /**
+   * Creates a schema for arrays whose items match a schema.
+   * @param {Schema} item - The schema for each item
+   * @returns {ArraySchema} The schema
+   */
+  array<T>(item: Schema<T>): ArraySchema<T> {
+    return createArraySchema<T>(
+      (value) => {
+        if (value === undefined) {
+          return fail("Required");
+        }
+
+        const items = Array.isArray(value) ? value : [value];
+        const output: T[] = [];
+        const issues: StandardIssue[] = [];
+
+        items.forEach((entry, index) => {
+          const result = item["~standard"].validate(entry);
+          if (result.issues) {
+            issues.push(...prefixIssues(result.issues, index));
+          } else {
+            output.push(result.value);
+          }
+        });
+
+        return issues.length > 0 ? { issues } : { value: output };
+      },
+      { type: "array", items: toJsonSchema(item) }
+    );
+  },
+
+  /**
+   * Creates a schema for objects with the given keys. Keys not in the shape
+   * are dropped from the output.
+   * @param {Shape} shape - The schema for each key
+   * @returns {Schema} The schema
+   */
+  object<S extends Shape>(shape: S): Schema<ObjectOutput<S>> {
+    return createSchema<ObjectOutput<S>>((value) => {
+      if (value === undefined) {
+        return fail("Required");
+      }
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return fail("Expected an object");
+      }
+
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = {};
+      const issues: StandardIssue[] = [];
+
+      for (const [key, schema] of Object.entries(shape)) {
+        const result = schema["~standard"].validate(
+          Object.hasOwn(input, key) ? input[key] : undefined
+        );
+        if (result.issues) {
+          issues.push(...prefixIssues(result.issues, key));
+        } else if (result.value !== undefined) {
+          output[key] = result.value;
+        }
+      }
+
+      return issues.length > 0
+        ? { issues }
+        : { value: output as ObjectOutput<S> };
+    }, objectJsonSchema(shape));
+  },
+};
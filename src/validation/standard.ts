@@ -0,0 +1,94 @@
+/**
+ * @file standard.ts
+ * @description Types from the Standard Schema specification
+ * (https://standardschema.dev), the common interface implemented by
+ * validation libraries such as Zod, Valibot and ArkType. Declared locally so
+ * the framework accepts their schemas without depending on any of them.
+ * @author Sriram Sundar
+ */
+
+/**
+ * A schema that validates unknown input into an `Output` value
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  /** The Standard Schema properties */
+  readonly "~standard": StandardSchemaProps<Input, Output>;
+}
+
+/**
+ * The properties every Standard Schema exposes under "~standard"
+ */
+export interface StandardSchemaProps<Input = unknown, Output = Input> {
+  /** The version of the specification */
+  readonly version: 1;
+  /** The library the schema comes from */
+  readonly vendor: string;
+  /** Validates a value, synchronously or not */
+  readonly validate: (
+    value: unknown
+  ) => StandardResult<Output> | Promise<StandardResult<Output>>;
+  /** The input and output types, for inference only */
+  readonly types?: StandardTypes<Input, Output> | undefined;
+}
+
+/**
+ * The input and output types of a schema
+ */
+export interface StandardTypes<Input = unknown, Output = Input> {
+  /** The accepted input type */
+  readonly input: Input;
+  /** The validated output type */
+  readonly output: Output;
+}
+
+/**
+ * The result of validating a value: the output value, or the issues found
+ */
+export type StandardResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardIssue> };
+
+/**
+ * A problem found while validating a value
+ */
+export interface StandardIssue {
+  /** Describes the problem */
+  readonly message: string;
+  /** Where in the value the problem is */
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+/**
+ * The output type of a Standard Schema
+ */
+export type InferOutput<S extends StandardSchemaV1> = NonNullable<
+  S["~standard"]["types"]
+>["output"];
+
+/**
+ * A JSON Schema document
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Options for converting a schema to JSON Schema
+ */
+export interface StandardJsonSchemaOptions {
+  /** The JSON Schema dialect to produce */
+  readonly target: "draft-2020-12" | "draft-07" | "openapi-3.0" | string;
+}
+
+/**
+ * A schema that can describe itself as JSON Schema, following the Standard
+ * JSON Schema specification
+ */
+export interface StandardJsonSchemaV1 {
+  /** The Standard Schema properties */
+  readonly "~standard": {
+    /** Converts the schema's input and output types to JSON Schema */
+    readonly jsonSchema: {
+      readonly input: (options: StandardJsonSchemaOptions) => JsonSchema;
+      readonly output: (options: StandardJsonSchemaOptions) => JsonSchema;
+    };
+  };
+}
@@ -0,0 +1,364 @@
+/**
+ * @file template.ts
+ * @description A small built-in template engine, registered for ".html" views.
+ * Supports escaped `{{ value }}` and raw `{{{ value }}}` output, `{{#if}}`,
+ * `{{#unless}}` and `{{#each}}` blocks with `{{else}}`, `{{> partial}}`
+ * includes and `{{! comments }}`.
+ * @author Sriram Sundar
+ */
+
+import { escapeHtml } from "../utils/html.ts";
+
+/**
+ * A parsed template node
+ */
+type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "value"; path: string; raw: boolean }
+  | {
+      type: "block";
+      kind: "if" | "unless" | "each";
+      path: string;
+      body: TemplateNode[];
+      alternate: TemplateNode[];
+    }
+  | { type: "partial"; name: string };
+
+/**
+ * A compiled template
+ */
+export type Template = TemplateNode[];
+
+/**
+ * A level of the scope chain: the current value and the loop variables
+ * (@index, @key, @first, @last) available to it
+ */
+interface Frame {
+  scope: unknown;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Options for rendering a template
+ */
+export interface TemplateOptions {
+  /**
+   * Loads a partial by name. Without it, `{{> partial}}` tags throw.
+   * @param {string} name - The partial name
+   * @returns {Promise<Template>} The compiled partial
+   */
+  partial?: (name: string) => Promise<Template>;
+}
+
+/**
+ * Matches `{{{ raw }}}` and `{{ tag }}` tags
+ */
+const TAG_PATTERN = /\{\{\{\s*([\s\S]*?)\s*\}\}\}|\{\{\s*([\s\S]*?)\s*\}\}/g;
+
+/**
+ * How deeply partials may include other partials
+ */
+const MAX_PARTIAL_DEPTH = 32;
+
+/**
+ * Compiled templates by file path, used when view caching is enabled
+ */
+const templateCache = new Map<string, Template>();
+
+/**
+ * Parses template source into nodes
+ * @param {string} source - The template source
+ * @returns {Template} The compiled template
+ * @throws {SyntaxError} If blocks are not properly opened and closed
+ */
+export function compileTemplate(source: string): Template {
+  const root: TemplateNode[] = [];
+  const open: Array<Extract<TemplateNode, { type: "block" }>> = [];
+  let target = root;
+  let lastIndex = 0;
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    if (match.index > lastIndex) {
+      target.push({
+        type: "text",
+        value: source.slice(lastIndex, match.index),
+      });
+    }
+    lastIndex = match.index + match[0].length;
+
+    if (match[1] !== undefined) {
+      target.push({ type: "value", path: match[1], raw: true });
+      continue;
+    }
+
+    const tag = match[2];
+
+    if (tag.startsWith("!")) {
+      continue;
+    }
+
+    if (tag.startsWith("#")) {
+      const [kind, path = ""] = tag.slice(1).trim().split(/\s+/, 2);
+      if (kind !== "if" && kind !== "unless" && kind !== "each") {
+        throw new SyntaxError(`Unknown block "{{#${kind}}}"`);
+      }
+      const block: Extract<TemplateNode, { type: "block" }> = {
+        type: "block",
+        kind,
+        path,
+        body: [],
+        alternate: [],
+      };
+      target.push(block);
+      open.push(block);
+      target = block.body;
+    } else if (tag.startsWith("/")) {
+      const kind = tag.slice(1).trim();
+      const block = open.pop();
+      if (!block || block.kind !== kind) {
+        throw new SyntaxError(`Unexpected "{{/${kind}}}"`);
+      }
+      const parent = open[open.length - 1];
+      target = parent ? currentBranch(parent) : root;
+    } else if (tag === "else") {
+      const block = open[open.length - 1];
+      if (!block) {
+        throw new SyntaxError('Unexpected "{{else}}" outside of a block');
+      }
+      target = block.alternate;
+    } else if (tag.startsWith(">")) {
+      target.push({ type: "partial", name: tag.slice(1).trim() });
+    } else {
+      target.push({ type: "value", path: tag, raw: false });
+    }
+  }
+
+  if (open.length > 0) {
+    throw new SyntaxError(`Unclosed "{{#${open[open.length - 1].kind}}}"`);
+  }
+
+  if (lastIndex < source.length) {
+    target.push({ type: "text", value: source.slice(lastIndex) });
+  }
+
+  return root;
+}
+
+/**
+ * Gets the branch of a block that is currently being filled
+ * @param {TemplateNode} block - The open block
+ * @returns {TemplateNode[]} The alternate branch once {{else}} was seen, else the body
+ */
+function currentBranch(
+  block: Extract<TemplateNode, { type: "block" }>
+): TemplateNode[] {
+  return block.alternate.length > 0 ? block.alternate : block.body;
+}
+
+/**
+ * Resolves a dotted path such as "user.name", "this", "@index" or "../title"
+ * against the scope chain
+ * @param {string} path - The path to resolve
+ * @param {Frame[]} frames - The scope chain, innermost last
+ * @returns {unknown} The resolved value, or undefined
+ */
+function lookup(path: string, frames: Frame[]): unknown {
+  let depth = frames.length - 1;
+  let rest = path;
+
+  while (rest.startsWith("../")) {
+    depth = Math.max(0, depth - 1);
+    rest = rest.slice(3);
+  }
+
+  const frame = frames[depth];
+
+  if (rest.startsWith("@")) {
+    return frame.data[rest.slice(1)];
+  }
+
+  const keys = rest === "this" || rest === "." ? [] : rest.split(".");
+  let value: unknown;
+
+  if (keys[0] === "this") {
+    keys.shift();
+    value = frame.scope;
+  } else if (keys.length === 0 || path !== rest) {
+    value = frame.scope;
+  } else {
+    const owner = frames
+      .slice(0, depth + 1)
+      .reverse()
+      .find(
+        ({ scope }) =>
+          typeof scope === "object" && scope !== null && keys[0] in scope
+      );
+    value = owner?.scope;
+  }
+
+  for (const key of keys) {
+    if (value === null || value === undefined) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+
+  return value;
+}
+
+/**
+ * Checks whether a value counts as true in {{#if}}; empty arrays are false
+ * @param {unknown} value - The value
+ * @returns {boolean} True if the value is truthy
+ */
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+/**
+ * Renders nodes against the scope chain
+ * @param {Template} nodes - The nodes to render
+ * @param {Frame[]} frames - The scope chain, innermost last
+ * @param {TemplateOptions} options - The render options
+ * @param {number} depth - How many partials deep rendering is
+ * @returns {Promise<string>} The rendered output
+ */
+async function renderNodes(
+  nodes: Template,
+  frames: Frame[],
+  options: TemplateOptions,
+  depth: number
+): Promise<string> {
+  let output = "";
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        output += node.value;
+        break;
+
+      case "value": {
+        const value = lookup(node.path, frames);
+        if (value !== null && value !== undefined) {
+          output += node.raw ? String(value) : escapeHtml(String(value));
+        }
+        break;
+      }
+
+      case "block": {
+        const value = lookup(node.path, frames);
+
+        if (node.kind !== "each") {
+          const show = isTruthy(value) === (node.kind === "if");
+          output += await renderNodes(
+            show ? node.body : node.alternate,
+            frames,
+            options,
+            depth
+          );
+          break;
+        }
+
+        const entries: Array<[string | number, unknown]> = Array.isArray(value)
+          ? value.map((item, i) => [i, item])
+          : typeof value === "object" && value !== null
+          ? Object.entries(value)
+          : [];
+
+        if (entries.length === 0) {
+          output += await renderNodes(node.alternate, frames, options, depth);
+          break;
+        }
+
+        for (const [i, [key, item]] of entries.entries()) {
+          const data = {
+            index: i,
+            key,
+            first: i === 0,
+            last: i === entries.length - 1,
+          };
+          output += await renderNodes(
+            node.body,
+            [...frames, { scope: item, data }],
+            options,
+            depth
+          );
+        }
+        break;
+      }
+
+      case "partial": {
+        if (!options.partial) {
+          throw new Error(`Cannot include partial "${node.name}"`);
+        }
+        if (depth >= MAX_PARTIAL_DEPTH) {
+          throw new Error(`Partials nested too deeply at "${node.name}"`);
+        }
+        const partial = await options.partial(node.name);
+        output += await renderNodes(partial, frames, options, depth + 1);
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Renders a compiled template with the given data
+ * @param {Template} template - The compiled template
+ * @param {Record<string, unknown>} data - The values available to the template
+ * @param {TemplateOptions} [options={}] - The render options
+ * @returns {Promise<string>} The rendered output
+ */
+export function renderTemplate(
+  template: Template,
+  data: Record<string, unknown>,
+  options: TemplateOptions = {}
+): Promise<string> {
+  return renderNodes(template, [{ scope: data, data: {} }], options, 0);
+}
+
+/**
+ * Reads and compiles a template file, reusing the compiled template when
+ * caching is enabled
+ * @param {string} path - The file path
+ * @param {boolean} cache - Whether to cache the compiled template
+ * @returns {Promise<Template>} The compiled template
+ */
+async function loadTemplate(path: string, cache: boolean): Promise<Template> {
+  const cached = cache ? templateCache.get(path) : undefined;
+  if (cached) {
+    return cached;
+  }
+
+  const template = compileTemplate(await Deno.readTextFile(path));
+  if (cache) {
+    templateCache.set(path, template);
+  }
+  return template;
+}
+
+/**
+ * View engine for template files. Partials are resolved relative to the
+ * rendered file's directory and share its extension, so
+ * `{{> partials/header}}` in "views/index.html" loads
+ * "views/partials/header.html".
+ * @param {string} path - The template file path
+ * @param {Record<string, unknown>} locals - The values available to the template; `cache` enables template caching
+ * @returns {Promise<string>} The rendered output
+ */
+export async function renderFile(
+  path: string,
+  locals: Record<string, unknown>
+): Promise<string> {
+  const cache = locals.cache === true;
+  const slash = path.lastIndexOf("/");
+  const dir = slash === -1 ? "." : path.slice(0, slash);
+  const ext = /\.[^./]+$/.exec(path)?.[0] ?? "";
+
+  return renderTemplate(await loadTemplate(path, cache), locals, {
+    partial: (name) =>
+      loadTemplate(`${dir}/${name}${name.endsWith(ext) ? "" : ext}`, cache),
+  });
+}
@@ -0,0 +1,115 @@
+/**
+ * @file view.ts
+ * @description Resolves view names to template files under the "views"
+ * directories and picks the engine registered for their extension.
+ * @author Sriram Sundar
+ */
+
+/**
+ * Renders a template file. `locals` holds the merged app, response and render
+ * locals plus `cache`, which is true when the "view cache" setting is enabled.
+ */
+export type EngineFunction = (
+  path: string,
+  locals: Record<string, unknown>
+) => string | Promise<string>;
+
+/**
+ * A view resolved to a file and the engine that renders it
+ */
+export interface View {
+  /** The name the view was looked up by */
+  name: string;
+  /** The path of the template file */
+  path: string;
+  /** The file extension, including the leading dot */
+  ext: string;
+  /** The engine registered for the extension */
+  engine: EngineFunction;
+}
+
+/**
+ * Options for resolving a view
+ */
+export interface ViewLookupOptions {
+  /** The directory or directories to search, in order */
+  root: string | string[];
+  /** The extension used for names without one (the "view engine" setting) */
+  defaultEngine?: string;
+  /** Engines by extension, including the leading dot */
+  engines: Record<string, EngineFunction>;
+}
+
+/**
+ * Normalizes an extension to include the leading dot
+ * @param {string} ext - The extension, such as "html" or ".html"
+ * @returns {string} The extension with a leading dot
+ */
+export function normalizeExtension(ext: string): string {
+  return ext.startsWith(".") ? ext : `.${ext}`;
+}
+
+/**
+ * Checks whether a path is an existing file
+ * @param {string} path - The path to check
+ * @returns {Promise<boolean>} True if the path is a file
+ */
+async function isFile(path: string): Promise<boolean> {
+  try {
+    return (await Deno.stat(path)).isFile;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolves a view name to a template file. Each root is tried in turn with
+ * "<name><ext>" and then "<name>/index<ext>"; absolute names skip the roots.
+ * @param {string} name - The view name, such as "users/show" or "index.html"
+ * @param {ViewLookupOptions} options - The lookup options
+ * @returns {Promise<View>} The resolved view
+ * @throws {Error} If no extension or engine is available or no file is found
+ */
+export async function lookupView(
+  name: string,
+  options: ViewLookupOptions
+): Promise<View> {
+  const { defaultEngine, engines } = options;
+  const nameExt = /\.[^./]+$/.exec(name)?.[0];
+
+  if (!nameExt && !defaultEngine) {
+    throw new Error(
+      "No default engine was specified and no extension was provided."
+    );
+  }
+
+  const ext = nameExt ?? normalizeExtension(defaultEngine as string);
+  const engine = engines[ext];
+
+  if (!engine) {
+    throw new Error(`No view engine registered for "${ext}"`);
+  }
+
+  const file = nameExt ? name : `${name}${ext}`;
+  const roots = name.startsWith("/")
+    ? [""]
+    : Array.isArray(options.root)
+    ? options.root
+    : [options.root];
+
+  for (const root of roots) {
+    const base = root ? `${root.replace(/\/+$/, "")}/${file}` : file;
+    const candidates = [base, base.replace(/\.[^./]+$/, `/index${ext}`)];
+
+    for (const path of candidates) {
+      if (await isFile(path)) {
+        return { name, path, ext, engine };
+      }
+    }
+  }
+
+  const dirs = roots.map((root) => `"${root}"`).join(", ");
+  throw new Error(
+    `Failed to lookup view "${name}" in views directories ${dirs}`
+  );
+}
@@ -0,0 +1,50 @@
+import express from "../src/core/express.ts";
+import { request } from "../src/testing/request.ts";
+
+Deno.test(
+  "urlencoded bodies over the parameter limit are answered with 413",
+  async () => {
+    const app = express();
+
+    app.use(express.urlencoded({ parameterLimit: 2 }));
+    app.post("/form", (req, res) => {
+      res.json(req.body);
+    });
+
+    const client = request(app);
+    await client
+      .post("/form")
+      .type("application/x-www-form-urlencoded")
+      .send("a=1&b=2")
+      .expect(200, { a: "1", b: "2" });
+    await client
+      .post("/form")
+      .type("application/x-www-form-urlencoded")
+      .send("a=1&b=2&c=3")
+      .expect(413);
+  }
+);
+
+Deno.test(
+  "keys named after Object.prototype members parse as plain values",
+  async () => {
+    const app = express();
+    const input = "toString=x&valueOf=1&a[hasOwnProperty]=2";
+    const expected = {
+      toString: "x",
+      valueOf: "1",
+      a: { hasOwnProperty: "2" },
+    };
+
+    app.use(express.urlencoded());
+    app.post("/form", (req, res) => {
+      res.json({ body: req.body, query: req.query });
+    });
+
+    await request(app)
+      .post(`/form?${input}`)
+      .type("application/x-www-form-urlencoded")
+      .send(input)
+      .expect(200, { body: expected, query: expected });
+  }
+);
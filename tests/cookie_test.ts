@@ -0,0 +1,15 @@
+import express from "../src/core/express.ts";
+import { request } from "../src/testing/request.ts";
+
+Deno.test("cookies named after Object.prototype members are kept", async () => {
+  const app = express();
+
+  app.get("/", (req, res) => {
+    res.json(req.cookies);
+  });
+
+  await request(app)
+    .get("/")
+    .set("Cookie", "toString=1; a=2; constructor=3; a=4")
+    .expect(200, { toString: "1", a: "2", constructor: "3" });
+});
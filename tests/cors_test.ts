@@ -0,0 +1,112 @@
+import { assertEquals } from "@std/assert";
+import express from "../src/core/express.ts";
+import { CorsOptions } from "../src/middleware/cors.ts";
+import { request } from "../src/testing/request.ts";
+
+/**
+ * Creates an app with CORS middleware and GET and POST /items routes
+ * @param {CorsOptions} options - The CORS options
+ * @returns {App} The app
+ */
+function createCorsApp(options: CorsOptions) {
+  const app = express();
+
+  app.use(express.cors(options));
+  app.get("/items", (_req, res) => {
+    res.send("items");
+  });
+  app.post("/items", (_req, res) => {
+    res.send("created");
+  });
+
+  return app;
+}
+
+Deno.test(
+  "preflight requests are answered with the path's methods",
+  async () => {
+    const client = request(createCorsApp({ maxAge: 600 }));
+
+    await client
+      .options("/items")
+      .set({
+        Origin: "https://app.test",
+        "Access-Control-Request-Method": "POST",
+        "Access-Control-Request-Headers": "content-type, x-token",
+      })
+      .expect(204, "")
+      .expect("Access-Control-Allow-Origin", "*")
+      .expect("Access-Control-Allow-Methods", "GET,HEAD,POST")
+      .expect("Access-Control-Allow-Headers", "content-type, x-token")
+      .expect("Access-Control-Max-Age", "600")
+      .expect("Vary", "Access-Control-Request-Headers");
+
+    // Without Access-Control-Request-Method it is a plain OPTIONS request
+    await client
+      .options("/items")
+      .set("Origin", "https://app.test")
+      .expect(200, "GET, HEAD, OPTIONS, POST")
+      .expect("Access-Control-Allow-Origin", "*");
+  }
+);
+
+Deno.test("preflight requests use the configured lists", async () => {
+  await request(
+    createCorsApp({
+      methods: ["GET", "PUT"],
+      allowedHeaders: ["Content-Type"],
+      optionsSuccessStatus: 200,
+    })
+  )
+    .options("/items")
+    .set({
+      Origin: "https://app.test",
+      "Access-Control-Request-Method": "PUT",
+      "Access-Control-Request-Headers": "x-token",
+    })
+    .expect(200, "")
+    .expect("Access-Control-Allow-Methods", "GET,PUT")
+    .expect("Access-Control-Allow-Headers", "Content-Type");
+});
+
+Deno.test("allowed origins are reflected and others refused", async () => {
+  const client = request(
+    createCorsApp({
+      origin: ["https://app.test", /\.example\.test$/],
+      credentials: true,
+      exposedHeaders: ["X-Total"],
+    })
+  );
+
+  await client
+    .get("/items")
+    .set("Origin", "https://app.test")
+    .expect(200, "items")
+    .expect("Access-Control-Allow-Origin", "https://app.test")
+    .expect("Access-Control-Allow-Credentials", "true")
+    .expect("Access-Control-Expose-Headers", "X-Total")
+    .expect("Vary", "Origin");
+  await client
+    .get("/items")
+    .set("Origin", "https://api.example.test")
+    .expect("Access-Control-Allow-Origin", "https://api.example.test");
+  await client
+    .get("/items")
+    .set("Origin", "https://evil.test")
+    .expect(200, "items")
+    .expect("Vary", "Origin")
+    .expect((res) => {
+      assertEquals(res.headers.has("Access-Control-Allow-Origin"), false);
+      assertEquals(res.headers.has("Access-Control-Allow-Credentials"), false);
+      assertEquals(res.headers.has("Access-Control-Expose-Headers"), false);
+    });
+});
+
+Deno.test("any origin is reflected instead of * with credentials", async () => {
+  await request(createCorsApp({ credentials: true }))
+    .get("/items")
+    .set("Origin", "https://app.test")
+    .expect("Access-Control-Allow-Origin", "https://app.test")
+    .expect("Access-Control-Allow-Credentials", "true")
+    .expect("Vary", "Origin");
+});
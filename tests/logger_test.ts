@@ -0,0 +1,49 @@
+import { assertEquals, assertMatch } from "@std/assert";
+import express from "../src/core/express.ts";
+import { request } from "../src/testing/request.ts";
+
+/**
+ * Waits until a condition holds, checking every few milliseconds
+ * @param {Function} condition - Returns true once the wait is over
+ */
+async function waitFor(condition: () => Promise<boolean>): Promise<void> {
+  for (let i = 0; i < 100 && !(await condition()); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+Deno.test(
+  "a failed log write does not stop later lines from being written",
+  async () => {
+    const dir = await Deno.makeTempDir();
+    const path = `${dir}/logs/access.log`;
+    const errors: unknown[] = [];
+    const app = express();
+
+    app.logger = { ...console, error: (...args) => errors.push(args) };
+    app.use(express.logger(":method :url :status", { stream: { path } }));
+    app.get("/", (_req, res) => {
+      res.send("ok");
+    });
+
+    try {
+      await request(app).get("/?first").expect(200);
+      await waitFor(() => Promise.resolve(errors.length > 0));
+      assertEquals(errors.length, 1);
+
+      await Deno.mkdir(`${dir}/logs`);
+      await request(app).get("/?second").expect(200);
+      await waitFor(() =>
+        Deno.readTextFile(path).then(
+          (text) => text.length > 0,
+          () => false
+        )
+      );
+
+      assertMatch(await Deno.readTextFile(path), /^GET \/\?second 200\n$/);
+      assertEquals(errors.length, 1);
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  }
+);
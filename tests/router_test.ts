@@ -0,0 +1,93 @@
+import express from "../src/core/express.ts";
+import { request } from "../src/testing/request.ts";
+
+Deno.test(
+  "a mounted router does not answer 405 for later parent routes",
+  async () => {
+    const app = express();
+    const users = express.Router();
+
+    users.get("/users", (_req, res) => {
+      res.send("list");
+    });
+    app.use("/api", users);
+    app.post("/api/users", (_req, res) => {
+      res.status(201).send("created");
+    });
+
+    const client = request(app);
+    await client.post("/api/users").expect(201, "created");
+    await client.get("/api/users").expect(200, "list");
+  }
+);
+
+Deno.test(
+  "methods from mounted and parent routes are merged into 405 and OPTIONS answers",
+  async () => {
+    const app = express();
+    const users = express.Router();
+
+    users.get("/users", (_req, res) => {
+      res.send("list");
+    });
+    app.use("/api", users);
+    app.post("/api/users", (_req, res) => {
+      res.send("created");
+    });
+
+    const client = request(app);
+    await client
+      .delete("/api/users")
+      .expect(405, "Method Not Allowed")
+      .expect("Content-Type", /^text\/plain/)
+      .expect("Allow", "GET, HEAD, OPTIONS, POST");
+    await client
+      .options("/api/users")
+      .expect(200, "GET, HEAD, OPTIONS, POST")
+      .expect("Content-Type", /^text\/plain/)
+      .expect("Allow", "GET, HEAD, OPTIONS, POST");
+  }
+);
+
+Deno.test("a path without routes is still a 404", async () => {
+  const app = express();
+  const users = express.Router();
+
+  users.get("/users", (_req, res) => {
+    res.send("list");
+  });
+  app.use("/api", users);
+
+  await request(app).delete("/api/nope").expect(404);
+});
+
+Deno.test(
+  "methods added to a route after a request are dispatched",
+  async () => {
+    const app = express();
+    const router = express.Router();
+    const item = router.route("/items/:id");
+
+    item.get((_req, res) => {
+      res.send("read");
+    });
+    app.use(router);
+
+    const client = request(app);
+    await client.get("/items/1").expect(200, "read");
+    await client
+      .put("/items/1")
+      .expect(405)
+      .expect("Allow", "GET, HEAD, OPTIONS");
+
+    item.put((_req, res) => {
+      res.send("updated");
+    });
+
+    await client.put("/items/1").expect(200, "updated");
+    await client
+      .delete("/items/1")
+      .expect(405)
+      .expect("Allow", "GET, HEAD, OPTIONS, PUT");
+  }
+);
@@ -0,0 +1,65 @@
+import express from "../src/core/express.ts";
+import { request } from "../src/testing/request.ts";
+
+const combinations = [
+  { caseSensitive: false, strict: false },
+  { caseSensitive: false, strict: true },
+  { caseSensitive: true, strict: false },
+  { caseSensitive: true, strict: true },
+];
+
+for (const { caseSensitive, strict } of combinations) {
+  Deno.test(
+    `app routes with caseSensitive=${caseSensitive} and strict=${strict}`,
+    async () => {
+      const app = express({ caseSensitive, strict });
+
+      app.get("/Users", (_req, res) => {
+        res.send("users");
+      });
+
+      const client = request(app);
+      await client.get("/Users").expect(200, "users");
+      await client
+        .get("/users")
+        .expect(caseSensitive ? 404 : 200, caseSensitive ? undefined : "users");
+      await client
+        .get("/Users/")
+        .expect(strict ? 404 : 200, strict ? undefined : "users");
+    }
+  );
+
+  Deno.test(
+    `mounted router routes with caseSensitive=${caseSensitive} and strict=${strict} under an app with the opposite settings`,
+    async () => {
+      const app = express({ caseSensitive: !caseSensitive, strict: !strict });
+      const api = express.Router({ caseSensitive, strict });
+
+      api.get("/Users", (_req, res) => {
+        res.send("users");
+      });
+      app.use("/api", api);
+      app.get("/Items", (_req, res) => {
+        res.send("items");
+      });
+
+      const client = request(app);
+      await client.get("/api/Users").expect(200, "users");
+      await client
+        .get("/api/users")
+        .expect(caseSensitive ? 404 : 200, caseSensitive ? undefined : "users");
+      await client
+        .get("/api/Users/")
+        .expect(strict ? 404 : 200, strict ? undefined : "users");
+
+      // The app's own routes keep the app's settings
+      await client.get("/Items").expect(200, "items");
+      await client
+        .get("/items")
+        .expect(caseSensitive ? 200 : 404, caseSensitive ? "items" : undefined);
+      await client
+        .get("/Items/")
+        .expect(strict ? 200 : 404, strict ? "items" : undefined);
+    }
+  );
+}
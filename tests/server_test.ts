@@ -0,0 +1,47 @@
+import { assertEquals } from "@std/assert";
+import express from "../src/core/express.ts";
+
+Deno.test("listen() rejects a certificate without a key", () => {
+  const app = express();
+  let error: unknown;
+
+  try {
+    app.listen({ port: 0, cert: "-----BEGIN CERTIFICATE-----" });
+  } catch (err) {
+    error = err;
+  }
+
+  assertEquals(error instanceof TypeError, true);
+});
+
+Deno.test(
+  "close() aborts connections still open after the shutdown timeout",
+  async () => {
+    const app = express();
+    const warnings: unknown[] = [];
+
+    app.get("/stream", (_req, res) => {
+      res.write("tick");
+    });
+
+    const server = app.listen({
+      port: 0,
+      shutdownTimeout: 50,
+      shutdownSignals: false,
+      logger: { ...console, warn: (message) => warnings.push(message) },
+    });
+    const { port } = server.address() as Deno.NetAddr;
+    const response = await fetch(`http://127.0.0.1:${port}/stream`);
+    const reader = response.body!.getReader();
+    await reader.read();
+
+    await server.close();
+    const aborted = await reader.read().then(
+      () => false,
+      () => true
+    );
+
+    assertEquals(aborted, true);
+    assertEquals(warnings.length, 1);
+  }
+);
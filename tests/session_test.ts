@@ -0,0 +1,182 @@
+import { assertEquals } from "@std/assert";
+import express from "../src/core/express.ts";
+import { SessionOptions } from "../src/middleware/session.ts";
+import { createMemoryStore, SessionStore } from "../src/session/store.ts";
+import { request } from "../src/testing/request.ts";
+
+/**
+ * A store that loads nothing and fails to save
+ */
+const failingStore: SessionStore = {
+  get: () => Promise.resolve(undefined),
+  set: () => Promise.reject(new Error("store down")),
+  destroy: () => Promise.resolve(),
+};
+
+/**
+ * Creates an app that counts visits in the session at GET /, reads the
+ * count without changing it at GET /peek and uses the given options
+ * @param {Partial<SessionOptions>} [options={}] - Session options to add
+ * @returns {App} The app
+ */
+function createCounterApp(options: Partial<SessionOptions> = {}) {
+  const app = express();
+
+  app.use(express.session({ secret: "test secret", ...options }));
+  app.get("/", (req, res) => {
+    req.session.data.visits = Number(req.session.data.visits ?? 0) + 1;
+    res.send(String(req.session.data.visits));
+  });
+  app.get("/peek", (req, res) => {
+    res.send(String(req.session.data.visits ?? 0));
+  });
+
+  return app;
+}
+
+/**
+ * Replaces Date.now with a clock the test advances, for the duration of a test
+ * @param {Function} test - Receives a function that advances the clock
+ */
+async function withClock(
+  test: (advance: (ms: number) => void) => Promise<void>
+): Promise<void> {
+  const realNow = Date.now;
+  let now = realNow();
+
+  Date.now = () => now;
+  try {
+    await test((ms) => {
+      now += ms;
+    });
+  } finally {
+    Date.now = realNow;
+  }
+}
+
+Deno.test("a failing session store is answered with a 500", async () => {
+  const errors: unknown[] = [];
+  const app = express();
+
+  app.set("logger", { ...console, error: (...args) => errors.push(args) });
+  app.use(express.session({ secret: "test secret", store: failingStore }));
+  app.get("/", (req, res) => {
+    req.session.data.visits = 1;
+    res.send("ok");
+  });
+
+  await request(app)
+    .get("/")
+    .expect(500)
+    .expect((res) => assertEquals(res.headers.has("Set-Cookie"), false));
+  assertEquals(errors.length, 1);
+});
+
+Deno.test(
+  "a failing session store reaches a custom app error handler",
+  async () => {
+    const app = express({
+      errorHandler: (err, _req, res) => {
+        res.status(503).send(`unavailable: ${(err as Error).message}`);
+      },
+    });
+
+    app.use(express.session({ secret: "test secret", store: failingStore }));
+    app.get("/", (req, res) => {
+      req.session.data.visits = 1;
+      res.json({ ok: true });
+    });
+
+    await request(app).get("/").expect(503, "unavailable: store down");
+  }
+);
+
+Deno.test(
+  "a session cookie with a bad signature starts a new session",
+  async () => {
+    const app = createCounterApp();
+    const client = request(app);
+
+    await client.get("/").expect(200, "1");
+    const { sid } = client.cookies();
+    const dot = sid.lastIndexOf(".");
+    const forgedId = `${sid[0] === "a" ? "b" : "a"}${sid.slice(1)}`;
+    const forgedSignature = `${sid.slice(0, dot + 1)}${
+      sid[dot + 1] === "A" ? "B" : "A"
+    }${sid.slice(dot + 2)}`;
+
+    for (const cookie of [forgedId, forgedSignature, sid.slice(0, dot)]) {
+      await request(app)
+        .get("/")
+        .set("Cookie", `sid=${cookie}`)
+        .expect(200, "1")
+        .expect("Set-Cookie", /^sid=/)
+        .expect((res) =>
+          assertEquals(res.headers.get("Set-Cookie")?.includes(sid), false)
+        );
+    }
+
+    await request(app).get("/").set("Cookie", `sid=${sid}`).expect(200, "2");
+  }
+);
+
+Deno.test(
+  "sessions signed with a rotated secret are still accepted",
+  async () => {
+    const store = createMemoryStore();
+    const client = request(createCounterApp({ secret: "old secret", store }));
+
+    await client.get("/").expect(200, "1");
+    await request(
+      createCounterApp({ secret: ["new secret", "old secret"], store })
+    )
+      .get("/")
+      .set("Cookie", `sid=${client.cookies().sid}`)
+      .expect(200, "2");
+  }
+);
+
+Deno.test("sessions expire unless rolling keeps them alive", async () => {
+  await withClock(async (advance) => {
+    const cookie = { maxAge: 60_000 };
+    const fixed = request(createCounterApp({ cookie }));
+    const rolling = request(createCounterApp({ cookie, rolling: true }));
+
+    await fixed.get("/").expect(200, "1");
+    await rolling.get("/").expect(200, "1");
+
+    advance(40_000);
+    await fixed
+      .get("/peek")
+      .expect(200, "1")
+      .expect((res) => assertEquals(res.headers.has("Set-Cookie"), false));
+    await rolling
+      .get("/peek")
+      .expect(200, "1")
+      .expect("Set-Cookie", /Max-Age=60/);
+
+    advance(40_000);
+    await fixed.get("/peek").expect(200, "0");
+    await rolling.get("/peek").expect(200, "1");
+
+    advance(61_000);
+    await rolling.get("/peek").expect(200, "0");
+  });
+});
+
+Deno.test(
+  "the memory store evicts the least recently used session",
+  async () => {
+    const app = createCounterApp({ store: createMemoryStore({ max: 2 }) });
+    const [first, second, third] = [request(app), request(app), request(app)];
+
+    await first.get("/").expect(200, "1");
+    await second.get("/").expect(200, "1");
+    await first.get("/").expect(200, "2");
+    await third.get("/").expect(200, "1");
+
+    await second.get("/peek").expect(200, "0");
+    await first.get("/").expect(200, "3");
+    await third.get("/peek").expect(200, "1");
+  }
+);
@@ -0,0 +1,114 @@
+import { assertEquals } from "@std/assert";
+import express from "../src/core/express.ts";
+import { StaticOptions } from "../src/middleware/static.ts";
+import { request, TestClient } from "../src/testing/request.ts";
+
+/**
+ * Runs a test against an app serving a temporary directory that holds
+ * hello.txt and .secret, with secret.txt next to it outside the root
+ * @param {StaticOptions} options - The static middleware options
+ * @param {Function} test - Receives a client for the app
+ */
+async function withStaticApp(
+  options: StaticOptions,
+  test: (client: TestClient) => Promise<void>
+): Promise<void> {
+  const dir = await Deno.makeTempDir();
+
+  try {
+    await Deno.mkdir(`${dir}/public`);
+    await Deno.writeTextFile(`${dir}/public/hello.txt`, "hello world");
+    await Deno.writeTextFile(`${dir}/public/.secret`, "hidden");
+    await Deno.writeTextFile(`${dir}/secret.txt`, "outside");
+
+    const app = express();
+    app.use(express.static(`${dir}/public`, options));
+
+    await test(request(app));
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+}
+
+Deno.test("static paths cannot leave the root", async () => {
+  await withStaticApp({ fallthrough: false }, async (client) => {
+    await client.get("/hello.txt").expect(200, "hello world");
+    await client.get("/..%2fsecret.txt").expect(403);
+    await client.get("/..%5csecret.txt").expect(403);
+    await client.get("/hello.txt%00.png").expect(400);
+  });
+});
+
+Deno.test("static dotfiles are ignored, denied or allowed", async () => {
+  await withStaticApp({ fallthrough: false }, async (client) => {
+    await client.get("/.secret").expect(404);
+  });
+  await withStaticApp(
+    { fallthrough: false, dotfiles: "deny" },
+    async (client) => {
+      await client.get("/.secret").expect(403);
+    }
+  );
+  await withStaticApp({ dotfiles: "allow" }, async (client) => {
+    await client.get("/.secret").expect(200, "hidden");
+  });
+});
+
+Deno.test("static files answer range requests", async () => {
+  await withStaticApp({}, async (client) => {
+    const { headers } = await client.get("/hello.txt").expect(200);
+    const lastModified = headers.get("Last-Modified") ?? "";
+
+    await client
+      .get("/hello.txt")
+      .set("Range", "bytes=0-4")
+      .expect(206, "hello")
+      .expect("Content-Range", "bytes 0-4/11");
+    await client
+      .get("/hello.txt")
+      .set("Range", "bytes=-5")
+      .expect(206, "world");
+    await client
+      .get("/hello.txt")
+      .set("Range", "bytes=50-")
+      .expect(416)
+      .expect("Content-Range", "bytes */11");
+
+    // Weak ETags never satisfy If-Range, so the full file is sent
+    await client
+      .get("/hello.txt")
+      .set({ Range: "bytes=0-4", "If-Range": headers.get("ETag") ?? "" })
+      .expect(200, "hello world");
+    await client
+      .get("/hello.txt")
+      .set({ Range: "bytes=0-4", "If-Range": lastModified })
+      .expect(206, "hello");
+    await client
+      .get("/hello.txt")
+      .set({
+        Range: "bytes=0-4",
+        "If-Range": new Date(Date.parse(lastModified) - 60000).toUTCString(),
+      })
+      .expect(200, "hello world");
+  });
+});
+
+Deno.test("static files answer conditional requests with 304", async () => {
+  await withStaticApp({}, async (client) => {
+    const { headers } = await client.get("/hello.txt").expect(200);
+
+    await client
+      .get("/hello.txt")
+      .set("If-None-Match", headers.get("ETag") ?? "")
+      .expect(304, "")
+      .expect((res) => assertEquals(res.headers.has("Content-Length"), false));
+    await client
+      .get("/hello.txt")
+      .set("If-Modified-Since", headers.get("Last-Modified") ?? "")
+      .expect(304, "");
+    await client
+      .get("/hello.txt")
+      .set("If-None-Match", '"other"')
+      .expect(200, "hello world");
+  });
+});
@@ -0,0 +1,114 @@
+import express, { v } from "../src/core/express.ts";
+import { request } from "../src/testing/request.ts";
+
+/**
+ * Creates an app with a validated POST /items/:id route that echoes the
+ * validated params, query, headers and body
+ * @returns {App} The app
+ */
+function createItemsApp() {
+  const app = express();
+
+  app.post(
+    "/items/:id",
+    express.json(),
+    express.validate({
+      params: v.object({ id: v.number().int() }),
+      query: v.object({
+        page: v.number().int().min(1).default(1),
+        tags: v.array(v.string()).optional(),
+        draft: v.boolean().optional(),
+      }),
+      headers: v.object({ "x-api-key": v.string() }),
+      body: v.object({
+        name: v.string(),
+        due: v.date().optional(),
+        status: v.enum(["open", "closed", 3]).default("open"),
+      }),
+    }),
+    (req, res) => {
+      res.json({
+        params: req.params,
+        query: req.query,
+        key: req.validated.headers["x-api-key"],
+        body: req.body,
+      });
+    }
+  );
+
+  return app;
+}
+
+Deno.test("validated values are coerced and defaulted", async () => {
+  const client = request(createItemsApp());
+
+  await client
+    .post("/items/7?tags=a&draft=1&extra=x")
+    .set("X-Api-Key", "secret")
+    .send({ name: "first", due: "2024-01-02T03:04:05.000Z", extra: true })
+    .expect(200, {
+      params: { id: 7 },
+      query: { page: 1, tags: ["a"], draft: true },
+      key: "secret",
+      body: {
+        name: "first",
+        due: "2024-01-02T03:04:05.000Z",
+        status: "open",
+      },
+    });
+  await client
+    .post("/items/7?page=2&tags=a&tags=b&draft=false")
+    .set("X-Api-Key", "secret")
+    .send({ name: "second", status: "3" })
+    .expect(200, {
+      params: { id: 7 },
+      query: { page: 2, tags: ["a", "b"], draft: false },
+      key: "secret",
+      body: { name: "second", status: 3 },
+    });
+});
+
+Deno.test(
+  "invalid requests are answered with 400 and every issue",
+  async () => {
+    const client = request(createItemsApp());
+
+    await client
+      .post("/items/abc?page=0&draft=maybe")
+      .accept("json")
+      .send({ status: "archived" })
+      .expect(400, {
+        error: {
+          status: 400,
+          message: "Validation failed",
+          issues: [
+            { location: "params", path: ["id"], message: "Expected a number" },
+            {
+              location: "query",
+              path: ["page"],
+              message: "Must be at least 1",
+            },
+            {
+              location: "query",
+              path: ["draft"],
+              message: "Expected a boolean",
+            },
+            { location: "headers", path: ["x-api-key"], message: "Required" },
+            { location: "body", path: ["name"], message: "Required" },
+            {
+              location: "body",
+              path: ["status"],
+              message: "Expected one of: open, closed, 3",
+            },
+          ],
+        },
+      });
+
+    await client
+      .post("/items/1.5")
+      .set("X-Api-Key", "secret")
+      .send({ name: "x" })
+      .expect(400, "Validation failed\nparams.id: Must be an integer")
+      .expect("Content-Type", /^text\/plain/);
+  }
+);
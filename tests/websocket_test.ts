@@ -0,0 +1,95 @@
+import { assertEquals } from "@std/assert";
+import express from "../src/core/express.ts";
+import { request } from "../src/testing/request.ts";
+
+Deno.test(
+  "ws routes pass plain requests to other routes for the same path",
+  async () => {
+    const app = express();
+    let middlewareRuns = 0;
+
+    app.ws(
+      "/live",
+      (_req, _res, next) => {
+        middlewareRuns++;
+        next?.();
+      },
+      (socket) => {
+        socket.send("hello");
+      }
+    );
+    app.get("/live", (_req, res) => {
+      res.send("status page");
+    });
+
+    await request(app).get("/live").expect(200, "status page");
+    await request(app)
+      .post("/live")
+      .expect(405)
+      .expect("Allow", "GET, HEAD, OPTIONS");
+    assertEquals(middlewareRuns, 0);
+  }
+);
+
+Deno.test(
+  "plain requests to a ws route nothing else answers get 426",
+  async () => {
+    const app = express();
+
+    app.ws("/live", (socket) => {
+      socket.send("hello");
+    });
+
+    await request(app)
+      .get("/live")
+      .expect(426, "Upgrade Required")
+      .expect("Upgrade", "websocket");
+    await request(app).post("/live").expect(404);
+  }
+);
+
+Deno.test(
+  "ws routes are listed as WS by routes() and left out of openapi()",
+  () => {
+    const app = express();
+
+    app.ws("/live", (socket) => {
+      socket.send("hello");
+    });
+    app.get("/live", (_req, res) => {
+      res.send("status page");
+    });
+
+    assertEquals(
+      app.routes().map((route) => `${route.method} ${route.path}`),
+      ["WS /live", "GET /live"]
+    );
+    assertEquals(Object.keys(app.openapi().paths["/live"]), ["get"]);
+  }
+);
+
+Deno.test("data sent by the socket handler reaches the client", async () => {
+  const app = express();
+
+  app.ws("/live", (socket) => {
+    socket.send("hello");
+  });
+
+  const server = app.listen({ port: 0, shutdownSignals: false });
+  const { port } = server.address() as Deno.NetAddr;
+  const ws = new WebSocket(`ws://127.0.0.1:${port}/live`);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const message = await new Promise<string>((resolve, reject) => {
+    ws.onmessage = (event) => resolve(event.data);
+    ws.onerror = () => reject(new Error("WebSocket error"));
+    timer = setTimeout(() => resolve("<no message>"), 1000);
+  });
+  clearTimeout(timer);
+  const closed = new Promise((resolve) => (ws.onclose = resolve));
+
+  ws.close();
+  await closed;
+  await server.close();
+
+  assertEquals(message, "hello");
+});